@@ -0,0 +1,30 @@
+import {describe, expect, it} from 'vitest';
+import {createRateLimiter, getClientKey} from './rateLimit';
+
+const request = (headers: Record<string, string>) => new Request('http://localhost/api/scores', {headers});
+
+describe('createRateLimiter', () => {
+    it('allows up to the limit per window, then says how long to wait', () => {
+        const limit = createRateLimiter({limit: 2, windowMs: 1000});
+        expect(limit('a', 0)).toBe(0);
+        expect(limit('a', 100)).toBe(0);
+        expect(limit('a', 400)).toBe(600);
+        expect(limit('b', 400)).toBe(0); // Other clients have their own window
+        expect(limit('a', 1000)).toBe(0); // The first request has left the window
+    });
+});
+
+describe('getClientKey', () => {
+    const spoofed = {'x-forwarded-for': '1.2.3.4', 'x-real-ip': '5.6.7.8'};
+
+    it('ignores forwarding headers unless behind a trusted proxy', () => {
+        expect(getClientKey(request(spoofed), false)).toBe('shared');
+        expect(getClientKey(request({}), false)).toBe('shared');
+    });
+
+    it('uses the address the proxy appended, not the ones the client sent', () => {
+        expect(getClientKey(request({'x-forwarded-for': '1.2.3.4, 9.9.9.9'}), true)).toBe('9.9.9.9');
+        expect(getClientKey(request({'x-real-ip': '5.6.7.8'}), true)).toBe('5.6.7.8');
+        expect(getClientKey(request({}), true)).toBe('shared');
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * In-memory sliding-window rate limiter, keyed by client (IP).
+ * Good enough for one server process; limits reset when it restarts.
+ */
+export const createRateLimiter = ({limit, windowMs}: { limit: number; windowMs: number }) => {
+    const hits = new Map<string, number[]>();
+
+    /**
+     * Records a request. Returns 0 if allowed, otherwise the ms until the next request would be.
+     */
+    return (key: string, now = Date.now()): number => {
+        const recent = (hits.get(key) ?? []).filter(t => now - t < windowMs);
+
+        if (recent.length >= limit) {
+            hits.set(key, recent);
+            return windowMs - (now - recent[0]);
+        }
+
+        recent.push(now);
+        hits.set(key, recent);
+
+        // Forget idle clients now and then, so the map can't grow forever
+        if (hits.size > 1000) {
+            hits.forEach((times, client) => {
+                if (now - times[times.length - 1] >= windowMs) hits.delete(client);
+            });
+        }
+        return 0;
+    };
+};
+
+// Set TRUST_PROXY=1 only behind a reverse proxy that sets these headers: anyone can send them directly
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+/**
+ * Client (IP) to rate limit a request by. Forwarding headers are only trusted behind a proxy, and then the
+ * entry the proxy itself appended (the last one) is used; earlier ones come from the client. Without a proxy,
+ * route handlers can't see the socket address, so all clients share one key (a booth is one machine anyway).
+ */
+export const getClientKey = (request: Request, trustProxy = TRUST_PROXY) => {
+    if (!trustProxy) return 'shared';
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim();
+    return forwarded || request.headers.get('x-real-ip') || 'shared';
+};
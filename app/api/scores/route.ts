@@ -0,0 +1,68 @@
+import {isValidMode, LEADERBOARD_LIMITS, ScoreEntry, validateSubmission} from '../../game/leaderboard';
+import {createRateLimiter, getClientKey} from './rateLimit';
+import {addScore, getTopScores} from './scoreStore';
+
+export const runtime = 'nodejs'; // File store needs fs
+
+// A booth shares one IP, so limits are per machine: a round takes a minute, a few posts per minute is plenty
+const limitPosts = createRateLimiter({limit: 5, windowMs: 60_000});
+const limitReads = createRateLimiter({limit: 120, windowMs: 60_000});
+
+const error = (message: string, status: number, headers?: HeadersInit) =>
+    Response.json({error: message}, {status, headers});
+
+const tooManyRequests = (retryMs: number) =>
+    error('Too many requests, try again shortly', 429, {'Retry-After': String(Math.ceil(retryMs / 1000))});
+
+// Anything the handler doesn't answer itself (store failures, unexpected throws) still gets a JSON body
+const withJsonErrors = (message: string, handler: (request: Request) => Promise<Response>) =>
+    async (request: Request) => {
+        try {
+            return await handler(request);
+        } catch (err) {
+            console.error(`${message}:`, err);
+            return error(message, 500);
+        }
+    };
+
+/**
+ * GET /api/scores?mode=classic&limit=10 -> {mode, scores}
+ */
+export const GET = withJsonErrors('Could not read scores', async request => {
+    const retryMs = limitReads(getClientKey(request));
+    if (retryMs > 0) return tooManyRequests(retryMs);
+
+    const params = new URL(request.url).searchParams;
+    const mode = params.get('mode') ?? 'classic';
+    if (!isValidMode(mode)) return error('Invalid "mode"', 400);
+
+    const limit = Number(params.get('limit') ?? LEADERBOARD_LIMITS.DEFAULT_LIST_SIZE);
+    if (!Number.isInteger(limit) || limit < 1 || limit > LEADERBOARD_LIMITS.MAX_LIST_SIZE) {
+        return error(`"limit" must be between 1 and ${LEADERBOARD_LIMITS.MAX_LIST_SIZE}`, 400);
+    }
+
+    return Response.json({mode, scores: await getTopScores(mode, limit)});
+});
+
+/**
+ * POST /api/scores {mode, initials, score, hits, shots, bestCombo} -> 201 {entry, rank, scores}
+ */
+export const POST = withJsonErrors('Could not save score', async request => {
+    const retryMs = limitPosts(getClientKey(request));
+    if (retryMs > 0) return tooManyRequests(retryMs);
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return error('Body must be valid JSON', 400);
+    }
+
+    const result = validateSubmission(body);
+    if (!result.ok) return error(result.error, 400);
+
+    const entry: ScoreEntry = {...result.value, createdAt: new Date().toISOString()};
+    const rank = await addScore(entry);
+    const scores = await getTopScores(entry.mode, LEADERBOARD_LIMITS.DEFAULT_LIST_SIZE);
+    return Response.json({entry, rank, scores}, {status: 201});
+});
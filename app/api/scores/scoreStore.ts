@@ -0,0 +1,59 @@
+import {promises as fs} from 'fs';
+import path from 'path';
+import {compareEntries, LEADERBOARD_LIMITS, ScoreEntry} from '../../game/leaderboard';
+
+/**
+ * High scores in a local JSON file ({"<mode>": [entries...]}), meant for a single booth machine.
+ * Location: SCORES_FILE env var, or data/scores.json in the project directory.
+ * Writes go through one queue and replace the file atomically, so concurrent requests can't corrupt it.
+ */
+type ScoreFile = Record<string, ScoreEntry[]>;
+
+const SCORES_FILE = process.env.SCORES_FILE ?? path.join(process.cwd(), 'data', 'scores.json');
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Null prototype: a mode named like an Object.prototype member ("constructor", "__proto__") is just a key
+const createScoreFile = (entries: object = {}): ScoreFile => Object.assign(Object.create(null), entries);
+
+const readFile = async (): Promise<ScoreFile> => {
+    try {
+        const data: unknown = JSON.parse(await fs.readFile(SCORES_FILE, 'utf8'));
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new Error(`${SCORES_FILE} is not a JSON object`);
+        return createScoreFile(data);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return createScoreFile(); // No scores yet
+        throw err;
+    }
+};
+
+const scoresFor = (data: ScoreFile, mode: string): ScoreEntry[] =>
+    Object.hasOwn(data, mode) && Array.isArray(data[mode]) ? data[mode] : [];
+
+const writeFile = async (data: ScoreFile) => {
+    await fs.mkdir(path.dirname(SCORES_FILE), {recursive: true});
+    const tmp = `${SCORES_FILE}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.rename(tmp, SCORES_FILE);
+};
+
+export const getTopScores = async (mode: string, limit: number): Promise<ScoreEntry[]> => {
+    await writeQueue; // Don't read a half-finished update
+    const data = await readFile();
+    return scoresFor(data, mode).slice(0, limit);
+};
+
+/**
+ * Stores an entry and returns its 1-based rank (0 if it fell off the kept list).
+ */
+export const addScore = (entry: ScoreEntry): Promise<number> => {
+    const task = writeQueue.then(async () => {
+        const data = await readFile();
+        const list = [...scoresFor(data, entry.mode), entry].sort(compareEntries);
+        data[entry.mode] = list.slice(0, LEADERBOARD_LIMITS.MAX_ENTRIES_PER_MODE);
+        await writeFile(data);
+        return data[entry.mode].indexOf(entry) + 1;
+    });
+    writeQueue = task.catch(() => undefined); // A failed write must not block later ones
+    return task;
+};
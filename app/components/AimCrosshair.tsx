@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import {HandData} from '../hooks/useMultimodalTracking';
+import {calculateAimPoint} from '../utils/parallaxUtils';
+import {FIRING_COLOR, PLAYER_STYLES} from '../utils/players';
+
+interface AimCrosshairProps {
+    hands: HandData[];
+    screenSize: { width: number; height: number };
+}
+
+/**
+ * In-world crosshairs drawn on the screen plane (Z=0) where each fingertip aims, in the hand's player color.
+ * Uses the same mapping as BulletSystem, so a bullet always passes through the center of the reticle.
+ */
+export const AimCrosshair = ({hands, screenSize}: AimCrosshairProps) => (
+    <>
+        {hands.filter(hand => hand.isGunPose).map(hand => (
+            <Crosshair
+                key={hand.handedness}
+                position={calculateAimPoint(hand.indexTipPos, screenSize)}
+                color={hand.isFiring ? FIRING_COLOR : PLAYER_STYLES[hand.handedness].color}
+            />
+        ))}
+    </>
+);
+
+const Crosshair = ({position, color}: { position: THREE.Vector3; color: string }) => {
+    return (
+        <group position={position} renderOrder={999}>
+            {/* Ring */}
+            <mesh>
+                <ringGeometry args={[0.6, 0.75, 32]}/>
+                <meshBasicMaterial color={color} transparent depthTest={false} toneMapped={false}/>
+            </mesh>
+
+            {/* Horizontal & Vertical Lines */}
+            <mesh>
+                <planeGeometry args={[2.2, 0.1]}/>
+                <meshBasicMaterial color={color} transparent depthTest={false} toneMapped={false}/>
+            </mesh>
+            <mesh>
+                <planeGeometry args={[0.1, 2.2]}/>
+                <meshBasicMaterial color={color} transparent depthTest={false} toneMapped={false}/>
+            </mesh>
+        </group>
+    );
+};
@@ -0,0 +1,260 @@
+import {RefObject, useEffect, useMemo, useState} from 'react';
+import {FacePosition} from '../tracking/types';
+import {CALIBRATION_LIMITS, CalibrationResult, CalibrationSample, solveCalibration} from '../utils/calibration';
+import {getCalibration, resetCalibration, saveCalibration} from '../utils/calibrationStore';
+
+interface CalibrationWizardProps {
+    facePositionRef: RefObject<FacePosition>; // Raw (unfiltered) head pose, straight from the webcam
+    onClose: () => void;
+}
+
+const CAPTURE_RULES = {
+    DURATION_MS: 1200,    // Head positions averaged per capture
+    MIN_FRAMES: 10,       // Fewer tracked frames than this: the face was lost
+    DEFAULT_DISTANCE_CM: 60,
+};
+
+// Where the head goes for each capture step: in front of a screen point (-1..1 from the center, +Y up)
+type PointStep = 'center' | 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+type Step = 'screen' | PointStep | 'distance' | 'result';
+
+const STEPS: Step[] = ['screen', 'center', 'topLeft', 'topRight', 'bottomRight', 'bottomLeft', 'distance', 'result'];
+
+const POINTS: Record<PointStep, { label: string; x: -1 | 0 | 1; y: -1 | 0 | 1 }> = {
+    center: {label: 'the center of the screen', x: 0, y: 0},
+    topLeft: {label: 'the top-left corner', x: -1, y: 1},
+    topRight: {label: 'the top-right corner', x: 1, y: 1},
+    bottomRight: {label: 'the bottom-right corner', x: 1, y: -1},
+    bottomLeft: {label: 'the bottom-left corner', x: -1, y: -1},
+};
+
+const isPointStep = (step: Step): step is PointStep => step in POINTS;
+
+type Point3 = { x: number; y: number; z: number };
+type Captures = Partial<Record<PointStep | 'distance', Point3>>;
+
+// Captured positions paired with where the head really was (screen cm from the center)
+const toSamples = (captures: Captures, screenCm: { width: number; height: number }, distanceCm: number) => {
+    const samples: CalibrationSample[] = [];
+    (Object.keys(POINTS) as PointStep[]).forEach(id => {
+        const measured = captures[id];
+        if (!measured) return;
+        samples.push({
+            measured,
+            target: {x: POINTS[id].x * screenCm.width / 2, y: POINTS[id].y * screenCm.height / 2, z: null}
+        });
+    });
+    if (captures.distance) samples.push({measured: captures.distance, target: {x: 0, y: 0, z: distanceCm}});
+    return samples;
+};
+
+/**
+ * Step-by-step calibration: screen size, head in front of the center and each corner, then at a known
+ * distance. Solves the webcam's offset, tilt and scale from the captures and saves them as the profile
+ * the camera and the bullets use. Markers sit at the window's corners, so run it in fullscreen.
+ */
+export const CalibrationWizard = ({facePositionRef, onClose}: CalibrationWizardProps) => {
+    const [stepIndex, setStepIndex] = useState(0);
+    const [screenCm, setScreenCm] = useState(() => {
+        const {screenWidthCm, screenHeightCm} = getCalibration();
+        return {width: screenWidthCm, height: screenHeightCm};
+    });
+    const [diagonalInches, setDiagonalInches] = useState('');
+    const [distanceCm, setDistanceCm] = useState(CAPTURE_RULES.DEFAULT_DISTANCE_CM);
+    const [captures, setCaptures] = useState<Captures>({});
+    const [capturing, setCapturing] = useState<PointStep | 'distance' | null>(null);
+    const [captureError, setCaptureError] = useState<string | null>(null);
+
+    const step = STEPS[stepIndex];
+
+    // Every capture is in by the last step: solve
+    const solved = useMemo((): { result: CalibrationResult | null; error: string | null } => {
+        if (step !== 'result') return {result: null, error: null};
+        try {
+            return {result: solveCalibration(toSamples(captures, screenCm, distanceCm)), error: null};
+        } catch (err) {
+            return {result: null, error: err instanceof Error ? err.message : String(err)};
+        }
+    }, [step, captures, screenCm, distanceCm]);
+    const {result} = solved;
+    const error = captureError ?? solved.error;
+
+    // Average the raw head position over the capture window
+    useEffect(() => {
+        if (!capturing) return;
+
+        const start = performance.now();
+        const sum = {x: 0, y: 0, z: 0};
+        let frames = 0;
+        let lastTimestamp = -1;
+        let raf = 0;
+
+        const sample = () => {
+            const face = facePositionRef.current;
+            if (face.detected && face.timestamp !== lastTimestamp) {
+                lastTimestamp = face.timestamp;
+                sum.x += face.x;
+                sum.y += face.y;
+                sum.z += face.z;
+                frames++;
+            }
+
+            if (performance.now() - start < CAPTURE_RULES.DURATION_MS) {
+                raf = requestAnimationFrame(sample);
+                return;
+            }
+
+            setCapturing(null);
+            if (frames < CAPTURE_RULES.MIN_FRAMES) {
+                setCaptureError('Face not tracked during the capture: check the lighting and try again');
+                return;
+            }
+            setCaptures(prev => ({...prev, [capturing]: {x: sum.x / frames, y: sum.y / frames, z: sum.z / frames}}));
+            setCaptureError(null);
+            setStepIndex(i => i + 1);
+        };
+        raf = requestAnimationFrame(sample);
+        return () => cancelAnimationFrame(raf);
+    }, [capturing, facePositionRef]);
+
+    // Width x height from the diagonal and the monitor's aspect ratio (browsers don't report physical size)
+    const applyDiagonal = () => {
+        const inches = Number(diagonalInches);
+        if (!(inches > 0)) return;
+        const aspect = window.screen.width / window.screen.height;
+        const diagonalCm = inches * 2.54;
+        const height = diagonalCm / Math.sqrt(1 + aspect * aspect);
+        setScreenCm({width: Math.round(height * aspect * 10) / 10, height: Math.round(height * 10) / 10});
+    };
+
+    const restart = () => {
+        setCaptures({});
+        setCaptureError(null);
+        setStepIndex(STEPS.indexOf('center'));
+    };
+
+    const save = () => {
+        if (!result) return;
+        saveCalibration({...result.calibration, screenWidthCm: screenCm.width, screenHeightCm: screenCm.height});
+        onClose();
+    };
+
+    const {MIN_SCREEN_CM, MAX_SCREEN_CM} = CALIBRATION_LIMITS;
+    const screenValid = [screenCm.width, screenCm.height].every(cm => cm >= MIN_SCREEN_CM && cm <= MAX_SCREEN_CM);
+    const buttonClass = 'bg-white/10 border border-white/30 rounded px-3 py-1 text-white hover:bg-white/20 disabled:opacity-40';
+    const inputClass = 'bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white w-20';
+    const point = isPointStep(step) ? POINTS[step] : step === 'distance' ? POINTS.center : null;
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/60 font-mono text-sm text-white pointer-events-auto">
+            {/* Where to put your head */}
+            {point && (
+                <div
+                    className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-cyan-300 bg-cyan-300/40 animate-pulse"
+                    style={{
+                        left: `calc(${50 + point.x * 50}% - ${point.x * 1.5}rem)`,
+                        top: `calc(${50 - point.y * 50}% + ${point.y * 1.5}rem)`
+                    }}
+                />
+            )}
+
+            <div className="absolute top-8 left-1/2 -translate-x-1/2 w-[28rem] bg-black/80 border border-white/20 rounded p-5 flex flex-col gap-3">
+                <div className="flex justify-between text-white/60 text-xs">
+                    <span>CALIBRATION</span>
+                    <span>{stepIndex + 1} / {STEPS.length}</span>
+                </div>
+
+                {step === 'screen' && (
+                    <>
+                        <p>Enter the size of the visible screen area, or its diagonal.</p>
+                        <div className="flex items-center gap-2">
+                            <input type="number" min={MIN_SCREEN_CM} max={MAX_SCREEN_CM} step={0.1} className={inputClass}
+                                   value={screenCm.width}
+                                   onChange={e => setScreenCm({...screenCm, width: Number(e.target.value)})}/>
+                            x
+                            <input type="number" min={MIN_SCREEN_CM} max={MAX_SCREEN_CM} step={0.1} className={inputClass}
+                                   value={screenCm.height}
+                                   onChange={e => setScreenCm({...screenCm, height: Number(e.target.value)})}/>
+                            cm
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <input type="number" min={5} step={0.1} placeholder='24"' className={inputClass}
+                                   value={diagonalInches} onChange={e => setDiagonalInches(e.target.value)}/>
+                            <button onClick={applyDiagonal} className={buttonClass}>From diagonal</button>
+                        </div>
+                        <p className="text-white/60 text-xs">
+                            Markers are drawn at the corners of the window: go fullscreen first.
+                        </p>
+                        <div className="flex gap-2">
+                            <button onClick={() => document.documentElement.requestFullscreen?.()} className={buttonClass}>
+                                Fullscreen
+                            </button>
+                            <button onClick={() => setStepIndex(i => i + 1)} disabled={!screenValid} className={buttonClass}>
+                                Next
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {isPointStep(step) && (
+                    <p>
+                        Move your head so your eyes are straight in front of {POINTS[step].label} (the marker),
+                        looking at it square-on, then hold still and capture.
+                    </p>
+                )}
+
+                {step === 'distance' && (
+                    <>
+                        <p>
+                            Center your head in front of the screen at a measured distance from it, then hold still and capture.
+                        </p>
+                        <label className="flex items-center gap-2">
+                            Distance
+                            <input type="number" min={20} max={200} className={inputClass} value={distanceCm}
+                                   onChange={e => setDistanceCm(Number(e.target.value))}/>
+                            cm
+                        </label>
+                    </>
+                )}
+
+                {(isPointStep(step) || step === 'distance') && (
+                    <button onClick={() => setCapturing(step)} disabled={capturing !== null} className={`${buttonClass} self-start`}>
+                        {capturing ? 'Hold still...' : 'Capture'}
+                    </button>
+                )}
+
+                {step === 'result' && result && (
+                    <>
+                        <p>Webcam position relative to the screen center:</p>
+                        <ul className="text-white/80 text-xs">
+                            <li>Offset: {result.calibration.cameraOffsetCm.x.toFixed(1)} cm right, {result.calibration.cameraOffsetCm.y.toFixed(1)} cm up</li>
+                            <li>Tilt: {result.calibration.cameraTiltDeg.toFixed(1)}° down</li>
+                            <li>Scale: {result.calibration.distanceScale.toFixed(3)}</li>
+                            <li>Fit error: {result.rmsErrorCm.toFixed(1)} cm</li>
+                        </ul>
+                        <div className="flex gap-2">
+                            <button onClick={save} className={buttonClass}>Save</button>
+                            <button onClick={restart} className={buttonClass}>Redo</button>
+                        </div>
+                    </>
+                )}
+
+                {error && <p className="text-red-400 text-xs">{error}</p>}
+                {step === 'result' && !result && <button onClick={restart} className={`${buttonClass} self-start`}>Redo</button>}
+
+                <div className="flex justify-between gap-2 pt-2 border-t border-white/10">
+                    <button
+                        onClick={() => {
+                            resetCalibration();
+                            onClose();
+                        }}
+                        className={buttonClass}
+                    >
+                        Reset to defaults
+                    </button>
+                    <button onClick={onClose} className={buttonClass}>Cancel</button>
+                </div>
+            </div>
+        </div>
+    );
+};
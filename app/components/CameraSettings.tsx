@@ -0,0 +1,98 @@
+import {useEffect, useState} from 'react';
+import {listWebcams, WEBCAM_FRAME_RATES, WEBCAM_RESOLUTIONS, WebcamDevice} from '../tracking/webcam';
+import {updateWebcamSettings, useWebcamSettings} from '../tracking/webcamSettingsStore';
+
+interface CameraSettingsProps {
+    videoSize: { width: number; height: number }; // What the camera actually delivers
+}
+
+/**
+ * Webcam device + capture mode. Changes swap the camera live and persist in localStorage.
+ */
+export const CameraSettings = ({videoSize}: CameraSettingsProps) => {
+    const settings = useWebcamSettings();
+    const [open, setOpen] = useState(false);
+    const [devices, setDevices] = useState<WebcamDevice[]>([]);
+
+    // Cameras can be plugged in / out while the panel is open
+    useEffect(() => {
+        if (!open) return;
+        let cancelled = false;
+        const refresh = () => {
+            listWebcams()
+                .then(found => {
+                    if (!cancelled) setDevices(found);
+                })
+                .catch(err => console.warn('Could not list cameras:', err));
+        };
+        refresh();
+        navigator.mediaDevices?.addEventListener('devicechange', refresh);
+        return () => {
+            cancelled = true;
+            navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+        };
+    }, [open]);
+
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+    const selectClass = 'bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white max-w-40';
+    // A remembered camera that's unplugged still shows up, so the selection doesn't silently change
+    const missing = settings.deviceId !== null && devices.length > 0
+        && !devices.some(device => device.deviceId === settings.deviceId);
+
+    return (
+        <div className="flex flex-col items-end gap-1.5 text-white/60 text-xs font-mono">
+            <button onClick={() => setOpen(!open)} className={buttonClass}>
+                Camera: {videoSize.width}x{videoSize.height}
+            </button>
+
+            {open && (
+                <div className="bg-black/70 border border-white/20 rounded p-2 flex flex-col gap-1.5 w-64">
+                    <label className="flex items-center justify-between gap-2">
+                        Device
+                        <select
+                            value={settings.deviceId ?? ''}
+                            onChange={e => updateWebcamSettings({deviceId: e.target.value || null})}
+                            className={selectClass}
+                        >
+                            <option value="">Default</option>
+                            {devices.map(device => <option key={device.deviceId} value={device.deviceId}>{device.label}</option>)}
+                            {missing && <option value={settings.deviceId ?? ''}>Disconnected camera</option>}
+                        </select>
+                    </label>
+
+                    <label className="flex items-center justify-between gap-2">
+                        Resolution
+                        <select
+                            value={`${settings.width}x${settings.height}`}
+                            onChange={e => {
+                                const [width, height] = e.target.value.split('x').map(Number);
+                                updateWebcamSettings({width, height});
+                            }}
+                            className={selectClass}
+                        >
+                            {WEBCAM_RESOLUTIONS.map(({width, height}) => (
+                                <option key={`${width}x${height}`} value={`${width}x${height}`}>{width}x{height}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label className="flex items-center justify-between gap-2">
+                        Frame rate
+                        <select
+                            value={settings.frameRate}
+                            onChange={e => updateWebcamSettings({frameRate: Number(e.target.value)})}
+                            className={selectClass}
+                        >
+                            {WEBCAM_FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                        </select>
+                    </label>
+
+                    {/* The camera falls back to its nearest mode when it can't do the requested one */}
+                    {(videoSize.width !== settings.width || videoSize.height !== settings.height) && (
+                        <p className="text-white/40">Camera delivers {videoSize.width}x{videoSize.height}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
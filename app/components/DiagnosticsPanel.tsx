@@ -0,0 +1,279 @@
+import {useEffect, useRef, useState} from 'react';
+import {DiagnosticsStats, HeadSample, TrackingDiagnostics} from '../tracking/diagnostics';
+import {getGestureConfig, useGestureConfig} from '../tracking/gestureConfigStore';
+import {useFaceControlConfig} from '../tracking/faceControlConfigStore';
+import {FaceControlConfig, FaceControlResult} from '../tracking/faceControls';
+import {FINGERS, GestureConfig, GestureResult, HAND_BONES} from '../tracking/gestures';
+import {HANDEDNESS, Handedness, HandData} from '../tracking/types';
+import {PLAYER_STYLES} from '../utils/players';
+
+interface DiagnosticsPanelProps {
+    diagnostics: TrackingDiagnostics;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const TEXT_REFRESH_MS = 200; // Numbers are redrawn at 5 Hz (graphs every frame)
+const GRAPH_WIDTH = 288;
+const AXIS_ROW_HEIGHT = 40;
+const MIN_AXIS_SPAN_CM = 2; // Keeps a still head from filling the graph with noise
+const AXIS_COLORS = {x: '#ff6666', y: '#66ff88', z: '#66aaff'};
+const FINGER_LABELS = {thumb: 'T', index: 'I', middle: 'M', ring: 'R', pinky: 'P'};
+
+// Raw (dim) vs filtered (bright) head position, one autoscaled row per axis
+const drawHeadGraph = (canvas: HTMLCanvasElement | null, history: HeadSample[]) => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (history.length < 2) return;
+
+    const stepX = canvas.width / (history.length - 1);
+    (['x', 'y', 'z'] as const).forEach((axis, row) => {
+        const top = row * AXIS_ROW_HEIGHT;
+        let min = Infinity;
+        let max = -Infinity;
+        history.forEach(({raw, filtered}) => {
+            min = Math.min(min, raw[axis], filtered[axis]);
+            max = Math.max(max, raw[axis], filtered[axis]);
+        });
+        const center = (min + max) / 2;
+        const span = Math.max(MIN_AXIS_SPAN_CM, max - min);
+        const toY = (value: number) => top + AXIS_ROW_HEIGHT / 2 - (value - center) / span * (AXIS_ROW_HEIGHT - 6);
+
+        (['raw', 'filtered'] as const).forEach(kind => {
+            ctx.strokeStyle = AXIS_COLORS[axis];
+            ctx.globalAlpha = kind === 'raw' ? 0.35 : 1;
+            ctx.beginPath();
+            history.forEach((sample, i) => {
+                const y = toY(sample[kind][axis]);
+                if (i === 0) ctx.moveTo(0, y);
+                else ctx.lineTo(i * stepX, y);
+            });
+            ctx.stroke();
+        });
+
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = AXIS_COLORS[axis];
+        ctx.font = '10px monospace';
+        ctx.fillText(`${axis} ${history[history.length - 1].filtered[axis].toFixed(1)} cm`, 2, top + 10);
+    });
+
+    // Face lost: shaded
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.15)';
+    history.forEach((sample, i) => {
+        if (!sample.detected) ctx.fillRect(i * stepX, 0, stepX + 1, canvas.height);
+    });
+};
+
+// Every tracked hand's 21 landmarks, fitted to the canvas with the video's aspect ratio
+const drawHandSkeletons = (canvas: HTMLCanvasElement | null, hands: HandData[], videoSize: { width: number; height: number }) => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const aspect = videoSize.height > 0 ? videoSize.width / videoSize.height : 4 / 3;
+    const width = Math.min(canvas.width, canvas.height * aspect);
+    const height = width / aspect;
+    const left = (canvas.width - width) / 2;
+    const top = (canvas.height - height) / 2;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.strokeRect(left, top, width, height);
+
+    hands.forEach(({landmarks, handedness, isGunPose}) => {
+        if (landmarks.length === 0) return; // Synthetic sources have no skeleton
+        const point = (i: number) => [left + landmarks[i].x * width, top + landmarks[i].y * height] as const;
+        ctx.strokeStyle = PLAYER_STYLES[handedness].color;
+        ctx.globalAlpha = isGunPose ? 1 : 0.6;
+        ctx.beginPath();
+        HAND_BONES.forEach(([a, b]) => {
+            ctx.moveTo(...point(a));
+            ctx.lineTo(...point(b));
+        });
+        ctx.stroke();
+        ctx.fillStyle = '#ffffff';
+        landmarks.forEach((_, i) => {
+            const [x, y] = point(i);
+            ctx.fillRect(x - 1, y - 1, 2, 2);
+        });
+        ctx.globalAlpha = 1;
+    });
+};
+
+// Upward index tip speed per hand against the recoil trigger's fire / re-arm thresholds
+const drawTipSpeeds = (canvas: HTMLCanvasElement | null, diagnostics: TrackingDiagnostics, config: GestureConfig) => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    let max = config.recoilSpeed * 2;
+    HANDEDNESS.forEach(handedness => {
+        diagnostics.getTipSpeeds(handedness).forEach(speed => {
+            if (speed > max) max = speed;
+        });
+    });
+    const toY = (speed: number) => canvas.height - Math.max(0, speed) / max * (canvas.height - 2) - 1;
+
+    ctx.setLineDash([4, 3]);
+    ctx.strokeStyle = 'rgba(255, 221, 0, 0.8)';
+    ctx.beginPath();
+    ctx.moveTo(0, toY(config.recoilSpeed));
+    ctx.lineTo(canvas.width, toY(config.recoilSpeed));
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.beginPath();
+    ctx.moveTo(0, toY(config.recoilRelease));
+    ctx.lineTo(canvas.width, toY(config.recoilRelease));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    HANDEDNESS.forEach(handedness => {
+        const speeds = diagnostics.getTipSpeeds(handedness);
+        const stepX = canvas.width / Math.max(1, speeds.length - 1);
+        ctx.strokeStyle = PLAYER_STYLES[handedness].color;
+        ctx.beginPath();
+        let drawing = false;
+        speeds.forEach((speed, i) => {
+            if (Number.isNaN(speed)) {
+                drawing = false; // Gap while the hand isn't seen
+                return;
+            }
+            if (drawing) ctx.lineTo(i * stepX, toY(speed));
+            else ctx.moveTo(i * stepX, toY(speed));
+            drawing = true;
+        });
+        ctx.stroke();
+    });
+};
+
+const GestureValues = ({handedness, gesture, config}: { handedness: Handedness; gesture: GestureResult; config: GestureConfig }) => (
+    <div style={{color: PLAYER_STYLES[handedness].color}}>
+        <div>
+            {PLAYER_STYLES[handedness].label}: pose {gesture.isGunPose ? 'yes' : 'no'}
+            {gesture.isFiring && <span className="text-yellow-300"> FIRE</span>}
+        </div>
+        <div className="grid grid-cols-5 gap-1 text-white/80">
+            {FINGERS.map(finger => (
+                <span key={finger} className={`flex flex-col ${gesture.fingers[finger] === 'folded' ? 'text-white' : 'text-white/40'}`}>
+                    <span>{FINGER_LABELS[finger]} {gesture.fingers[finger] === 'folded' ? 'folded' : 'ext'}</span>
+                    <span>{gesture.features.extension[finger].toFixed(2)}</span>
+                </span>
+            ))}
+        </div>
+        <div className="text-white/60">
+            pinch {gesture.features.pinchDistance.toFixed(2)} ({gesture.pinchClosed ? 'closed' : 'open'}) ·
+            thumb {gesture.features.thumbGap.toFixed(2)} ({gesture.thumbDown ? 'down' : 'up'}) ·
+            tip up {(-gesture.tipSpeedY).toFixed(4)} (fire &gt; {config.recoilSpeed})
+        </div>
+    </div>
+);
+
+// Expression scores against their trigger thresholds (face controls)
+const FaceControlValues = ({result, config}: { result: FaceControlResult; config: FaceControlConfig }) => (
+    <div className="text-white/80">
+        <div>Face controls</div>
+        <div className={result.eyesClosed ? 'text-white' : 'text-white/50'}>
+            blink {result.values.blink.toFixed(2)} (fire &gt; {config.blinkClose} for {config.blinkHoldMs} ms)
+        </div>
+        <div className={result.mouthOpen ? 'text-white' : 'text-white/50'}>
+            mouth {result.values.mouth.toFixed(2)} (start &gt; {config.mouthOpen} for {config.mouthHoldMs} ms)
+        </div>
+        <div className={result.browRaised ? 'text-white' : 'text-white/50'}>
+            brows {result.values.brow.toFixed(2)} (pause &gt; {config.browRaise} for {config.browHoldMs} ms)
+        </div>
+    </div>
+);
+
+/**
+ * Tracking + render performance, raw vs filtered head position, hand skeletons and the gesture recognizer's
+ * intermediate values, for tuning without logging.
+ */
+export const DiagnosticsPanel = ({diagnostics, open, onOpenChange}: DiagnosticsPanelProps) => {
+    const headCanvas = useRef<HTMLCanvasElement>(null);
+    const handCanvas = useRef<HTMLCanvasElement>(null);
+    const speedCanvas = useRef<HTMLCanvasElement>(null);
+    const [snapshot, setSnapshot] = useState<{
+        stats: DiagnosticsStats;
+        gestures: ReturnType<TrackingDiagnostics['getGestures']>;
+        faceControls: FaceControlResult | null;
+    } | null>(null);
+
+    // Numbers
+    useEffect(() => {
+        if (!open) return;
+        const id = window.setInterval(() => {
+            setSnapshot({
+                stats: diagnostics.getStats(),
+                gestures: diagnostics.getGestures(),
+                faceControls: diagnostics.getFaceControls()
+            });
+        }, TEXT_REFRESH_MS);
+        return () => window.clearInterval(id);
+    }, [open, diagnostics]);
+
+    // Graphs
+    useEffect(() => {
+        if (!open) return;
+        let raf = 0;
+        const draw = () => {
+            drawHeadGraph(headCanvas.current, diagnostics.getHeadHistory());
+            drawHandSkeletons(handCanvas.current, diagnostics.getHands(), diagnostics.getVideoSize());
+            drawTipSpeeds(speedCanvas.current, diagnostics, getGestureConfig());
+            raf = requestAnimationFrame(draw);
+        };
+        raf = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(raf);
+    }, [open, diagnostics]);
+
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+    const stats = snapshot?.stats;
+    const config = useGestureConfig();
+    const faceConfig = useFaceControlConfig();
+
+    return (
+        <div className="flex flex-col items-start gap-1.5 text-white/60 text-xs font-mono">
+            <button onClick={() => onOpenChange(!open)} className={buttonClass}>
+                Diagnostics {open ? '▾' : '▸'}
+            </button>
+
+            {open && (
+                <div className="bg-black/70 border border-white/20 rounded p-2 flex flex-col gap-2 w-[19rem]">
+                    <div className="grid grid-cols-2 gap-x-3">
+                        <span>Webcam {stats ? stats.trackingFps.toFixed(0) : '-'} fps</span>
+                        <span>Render {stats ? stats.renderFps.toFixed(0) : '-'} fps</span>
+                        <span>Face {stats ? stats.inferenceMs.face.toFixed(1) : '-'} ms</span>
+                        <span>Hands {stats ? stats.inferenceMs.hand.toFixed(1) : '-'} ms</span>
+                        <span className="col-span-2">Capture → render {stats ? stats.latencyMs.toFixed(0) : '-'} ms</span>
+                    </div>
+
+                    <div>
+                        <div>Head: raw (dim) vs filtered</div>
+                        <canvas ref={headCanvas} width={GRAPH_WIDTH} height={AXIS_ROW_HEIGHT * 3} className="bg-black/50 rounded"/>
+                    </div>
+
+                    <div className="flex gap-2 items-start">
+                        {/* Mirrored like the webcam preview */}
+                        <canvas ref={handCanvas} width={144} height={108} className="bg-black/50 rounded" style={{transform: 'scaleX(-1)'}}/>
+                        <span>
+                            Finger extension: extended above {config.extendThreshold}, folded below {config.foldThreshold}
+                        </span>
+                    </div>
+
+                    {faceConfig.enabled && snapshot?.faceControls && (
+                        <FaceControlValues result={snapshot.faceControls} config={faceConfig}/>
+                    )}
+
+                    {snapshot?.gestures.length
+                        ? snapshot.gestures.map(({handedness, gesture}) => (
+                            <GestureValues key={handedness} handedness={handedness} gesture={gesture} config={config}/>
+                        ))
+                        : <div>No hand</div>}
+
+                    <div>
+                        <div>Index tip up-speed vs recoil fire (yellow) / re-arm</div>
+                        <canvas ref={speedCanvas} width={GRAPH_WIDTH} height={60} className="bg-black/50 rounded"/>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,23 @@
+import {RefObject} from 'react';
+import {useFrame} from '@react-three/fiber';
+import {HeadPoseSampler} from '../hooks/useHeadPoseFilter';
+import {TrackingDiagnostics} from '../tracking/diagnostics';
+import {FacePosition} from '../tracking/types';
+
+interface DiagnosticsProbeProps {
+    diagnostics: TrackingDiagnostics;
+    facePositionRef: RefObject<FacePosition>; // Raw head pose
+    sampleHeadPose: HeadPoseSampler;          // Filtered pose, as the camera gets it
+}
+
+/**
+ * Feeds render timing and raw vs filtered head position into the diagnostics (mounted while the panel is open).
+ */
+export const DiagnosticsProbe = ({diagnostics, facePositionRef, sampleHeadPose}: DiagnosticsProbeProps) => {
+    useFrame(() => {
+        const now = performance.now();
+        diagnostics.recordRender(facePositionRef.current, sampleHeadPose(now), now);
+    });
+
+    return null;
+};
@@ -0,0 +1,20 @@
+import {useMemo} from 'react';
+import {Diorama, fitToRoom, RoomSize} from '../utils/diorama';
+
+interface DioramaModelProps {
+    diorama: Diorama;
+    room: RoomSize; // Follows the screen size, so the model refits when the window is resized
+}
+
+/**
+ * The window-mode model, scaled to fit the room and standing on its floor.
+ */
+export const DioramaModel = ({diorama, room}: DioramaModelProps) => {
+    const {scale, position} = useMemo(() => fitToRoom(diorama.bounds, room), [diorama, room]);
+
+    return (
+        <group scale={scale} position={position}>
+            <primitive object={diorama.object}/>
+        </group>
+    );
+};
@@ -0,0 +1,59 @@
+import {useRef} from 'react';
+import {LIGHTING_PRESET_NAMES, LightingPreset} from '../utils/diorama';
+
+interface DioramaPanelProps {
+    name: string | null; // Loaded model
+    loading: boolean;
+    error: string | null;
+    lighting: LightingPreset;
+    onLightingChange: (preset: LightingPreset) => void;
+    onOpenFiles: (files: File[]) => void;
+    onExit: () => void; // Back to the game
+}
+
+/**
+ * Window mode controls: open a model, pick the lighting, go back to the game.
+ */
+export const DioramaPanel = ({name, loading, error, lighting, onLightingChange, onOpenFiles, onExit}: DioramaPanelProps) => {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+
+    return (
+        <div className="absolute top-4 left-4 z-20 bg-black/50 p-4 rounded text-white/60 font-mono text-xs pointer-events-auto flex flex-col gap-2 w-64">
+            <div className="text-white text-sm">WINDOW MODE</div>
+            <div className="truncate">
+                {loading ? 'Loading model...' : name ?? 'Drop a .glb / .gltf anywhere, or open one'}
+            </div>
+            {error && <p className="text-red-400">{error}</p>}
+
+            <label className="flex items-center justify-between gap-2">
+                Lighting
+                <select
+                    value={lighting}
+                    onChange={e => onLightingChange(e.target.value as LightingPreset)}
+                    className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white"
+                >
+                    {LIGHTING_PRESET_NAMES.map(preset => <option key={preset} value={preset}>{preset}</option>)}
+                </select>
+            </label>
+
+            <div className="flex justify-between gap-2">
+                <button onClick={() => fileInput.current?.click()} className={buttonClass}>Open model...</button>
+                <button onClick={onExit} className={buttonClass}>Back to game</button>
+            </div>
+
+            {/* A .gltf needs its .bin and textures selected along with it */}
+            <input
+                ref={fileInput}
+                type="file"
+                multiple
+                accept=".glb,.gltf,.bin,image/*"
+                className="hidden"
+                onChange={e => {
+                    if (e.target.files?.length) onOpenFiles(Array.from(e.target.files));
+                    e.target.value = ''; // Same file can be opened again
+                }}
+            />
+        </div>
+    );
+};
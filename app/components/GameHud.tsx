@@ -0,0 +1,187 @@
+import {useCallback} from 'react';
+import {
+    GAME_RULES,
+    GameEvent,
+    GameState,
+    getActivePlayers,
+    getDisplayedPlayers,
+    getMultiplier,
+    getTotals
+} from '../game/gameState';
+import {HandData, TrackingSourceKind} from '../tracking/types';
+import {PLAYER_STYLES} from '../utils/players';
+import {getLeaderboardMode} from '../game/leaderboard';
+import {LeaderboardPanel} from './LeaderboardPanel';
+import {LevelDef} from '../game/levels';
+
+interface GameHudProps {
+    game: GameState;
+    send: (event: GameEvent) => void;
+    faceDetected: boolean;
+    hands: HandData[];
+    activeSource: TrackingSourceKind | null;
+    level: LevelDef | null;    // null while loading; its id names the leaderboard (two-player rounds get a '-duo' board)
+    levelError: string | null; // Level file couldn't be loaded: playing the built-in one
+    layoutError: string | null; // Screen layout couldn't be loaded: rendering the single default screen
+    seed: number;              // Of the current round (?seed=<it> replays it)
+}
+
+const formatClock = (ms: number) => {
+    const totalSec = Math.ceil(ms / 1000);
+    return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Score / timer / combo overlay plus the attract, countdown, pause and results screens.
+ */
+export const GameHud = ({game, send, faceDetected, hands, activeSource, level, levelError, layoutError, seed}: GameHudProps) => {
+    const totals = getTotals(game);
+    const players = getActivePlayers(game);
+    const showPerPlayer = players.length > 1;
+    const releaseResults = useCallback(() => send({type: 'releaseResults'}), [send]);
+    const buttonClass = 'bg-white/10 border border-white/30 rounded px-4 py-1.5 hover:bg-white/20 pointer-events-auto';
+
+    return (
+        <>
+            {/* Score Panel */}
+            <div
+                className="absolute top-4 left-4 z-20 bg-black/50 p-4 rounded text-white font-mono text-sm pointer-events-none min-w-48">
+                <div className="flex items-baseline justify-between gap-4">
+                    <span className="text-3xl font-bold">{totals.score}</span>
+                    <span className={game.timeLeftMs <= 10000 && game.phase === 'playing' ? 'text-red-400' : ''}>
+                        {formatClock(game.timeLeftMs)}
+                    </span>
+                </div>
+
+                {getDisplayedPlayers(game).map(hand => {
+                    const stats = game.players[hand];
+                    return (
+                        <p key={hand} style={showPerPlayer ? {color: PLAYER_STYLES[hand].color} : undefined}>
+                            {showPerPlayer && `${PLAYER_STYLES[hand].label}: ${stats.score} `}
+                            x{getMultiplier(stats.combo)} <span className="text-white/60">combo {stats.combo}</span>
+                        </p>
+                    );
+                })}
+
+                <p className="text-white/60">
+                    Hits {totals.hits}/{totals.shots} ({formatPercent(totals.accuracy)})
+                </p>
+
+                {level && game.wave && game.phase !== 'attract' && (
+                    <p className="text-white/60">
+                        Wave {game.wave.index + 1}/{level.waves.length} · {game.wave.name}
+                    </p>
+                )}
+
+                {/* Tracking at a glance (the old debug box) */}
+                <p className="mt-2 text-xs text-white/50">
+                    <span className={faceDetected ? 'text-green-400' : 'text-red-400'}>
+                        {faceDetected ? 'FACE' : 'NO FACE'}
+                    </span>
+                    {' · '}
+                    {hands.length === 0 ? 'no hand' : hands.map(hand => (
+                        <span key={hand.handedness} style={{color: PLAYER_STYLES[hand.handedness].color}}>
+                            {hand.handedness[0].toUpperCase()}{hand.isGunPose ? '●' : '○'}{' '}
+                        </span>
+                    ))}
+                    {' · '}
+                    {activeSource ?? 'starting...'}
+                    {' · '}
+                    seed {seed}
+                </p>
+            </div>
+
+            {game.phase === 'playing' && (
+                <button
+                    onClick={() => send({type: 'pause'})}
+                    className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-black/50 border border-white/20 rounded px-3 py-1 text-white/70 text-xs font-mono pointer-events-auto hover:bg-white/10"
+                >
+                    Pause (P)
+                </button>
+            )}
+
+            {/* Phase Screens */}
+            {game.phase !== 'playing' && (
+                <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+                    <div className="bg-black/60 rounded-lg px-10 py-8 text-center text-white font-mono">
+                        {game.phase === 'attract' && (
+                            <>
+                                <h1 className="text-3xl font-bold tracking-wide">PARALLAX WINDOW</h1>
+                                <p className="mt-3 text-white/70">
+                                    {level ? `${level.name}: ` : ''}
+                                    Hit as many targets as you can in {Math.round(game.roundMs / 1000)} seconds
+                                </p>
+                                <p className="mt-1 text-white/50 text-sm">Chain hits for a combo multiplier</p>
+                                {levelError && <p className="mt-2 text-red-400 text-xs">{levelError}</p>}
+                                {layoutError && <p className="mt-2 text-red-400 text-xs">{layoutError}</p>}
+                                <button
+                                    onClick={() => send({type: 'start'})}
+                                    disabled={!level}
+                                    className={`${buttonClass} mt-5`}
+                                >
+                                    {level ? 'Shoot or press Enter to start' : 'Loading level...'}
+                                </button>
+                            </>
+                        )}
+
+                        {game.phase === 'countdown' && (
+                            <p className="text-7xl font-bold animate-pulse">
+                                {Math.max(1, Math.ceil((GAME_RULES.COUNTDOWN_MS - game.phaseElapsedMs) / 1000))}
+                            </p>
+                        )}
+
+                        {game.phase === 'paused' && (
+                            <>
+                                <h2 className="text-2xl font-bold">PAUSED</h2>
+                                <div className="mt-5 flex gap-3 justify-center">
+                                    <button onClick={() => send({type: 'resume'})} className={buttonClass}>
+                                        Resume (Enter)
+                                    </button>
+                                    <button onClick={() => send({type: 'quit'})} className={buttonClass}>
+                                        Quit
+                                    </button>
+                                </div>
+                            </>
+                        )}
+
+                        {game.phase === 'results' && (
+                            <>
+                                <h2 className="text-2xl font-bold">{game.cleared ? 'LEVEL CLEAR' : "TIME'S UP"}</h2>
+                                <p className="mt-3 text-5xl font-bold">{totals.score}</p>
+                                <p className="mt-3 text-white/70">
+                                    Hits {totals.hits}/{totals.shots} · Accuracy {formatPercent(totals.accuracy)} ·
+                                    Best combo {totals.bestCombo}
+                                </p>
+                                <p className="mt-1 text-white/40 text-xs">
+                                    Seed {seed} · replay this round with ?seed={seed}
+                                </p>
+                                {showPerPlayer && players.map(hand => (
+                                    <p key={hand} style={{color: PLAYER_STYLES[hand].color}}>
+                                        {PLAYER_STYLES[hand].label}: {game.players[hand].score}
+                                    </p>
+                                ))}
+                                <LeaderboardPanel
+                                    mode={getLeaderboardMode(level?.id ?? 'classic', players.length)}
+                                    result={{
+                                        score: totals.score,
+                                        hits: totals.hits,
+                                        shots: totals.shots,
+                                        bestCombo: totals.bestCombo
+                                    }}
+                                    onDone={releaseResults}
+                                />
+                                {!game.resultsHeld && (
+                                    <button onClick={() => send({type: 'start'})} className={`${buttonClass} mt-5`}>
+                                        Play again (Enter)
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,161 @@
+import {useState} from 'react';
+import {resetGestureConfig, updateGestureConfig, useGestureConfig} from '../tracking/gestureConfigStore';
+import {FIRE_TRIGGERS, FireTrigger, GestureConfig} from '../tracking/gestures';
+import {resetFaceControlConfig, updateFaceControlConfig, useFaceControlConfig} from '../tracking/faceControlConfigStore';
+import {FaceControlConfig} from '../tracking/faceControls';
+
+interface Slider<Config = GestureConfig> {
+    key: keyof Config;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Sliders shown for every trigger (finger state hysteresis + rate limit)
+const COMMON_SLIDERS: Slider[] = [
+    {key: 'extendThreshold', label: 'Extended above', min: 0.5, max: 1, step: 0.01},
+    {key: 'foldThreshold', label: 'Folded below', min: 0.3, max: 0.95, step: 0.01},
+    {key: 'cooldownMs', label: 'Cooldown (ms)', min: 0, max: 1500, step: 50},
+];
+
+// Sliders specific to the selected trigger
+const TRIGGER_SLIDERS: Record<FireTrigger, Slider[]> = {
+    recoil: [
+        {key: 'recoilSpeed', label: 'Flick speed', min: 0.0001, max: 0.003, step: 0.0001},
+        {key: 'recoilRelease', label: 'Re-arm below', min: 0, max: 0.002, step: 0.0001},
+    ],
+    pinch: [
+        {key: 'pinchClose', label: 'Closed below', min: 0.05, max: 1, step: 0.01},
+        {key: 'pinchOpen', label: 'Open above', min: 0.1, max: 1.5, step: 0.01},
+        {key: 'armGraceMs', label: 'Pose grace (ms)', min: 0, max: 1000, step: 50},
+    ],
+    thumbDrop: [
+        {key: 'thumbDown', label: 'Down below', min: 0.1, max: 1, step: 0.01},
+        {key: 'thumbUp', label: 'Up above', min: 0.2, max: 1.5, step: 0.01},
+    ],
+    dwell: [
+        {key: 'dwellMs', label: 'Hold (ms)', min: 200, max: 3000, step: 100},
+        {key: 'dwellRadius', label: 'Radius', min: 0.005, max: 0.1, step: 0.005},
+    ],
+};
+
+// Face controls (hands-free): expression thresholds + how long each must be held
+const FACE_SLIDERS: Slider<FaceControlConfig>[] = [
+    {key: 'aimGain', label: 'Head aim gain', min: 1, max: 5, step: 0.1},
+    {key: 'blinkClose', label: 'Blink: closed above', min: 0.2, max: 0.95, step: 0.01},
+    {key: 'blinkOpen', label: 'Blink: open below', min: 0.05, max: 0.9, step: 0.01},
+    {key: 'blinkHoldMs', label: 'Blink: hold (ms)', min: 0, max: 1000, step: 50},
+    {key: 'mouthOpen', label: 'Mouth: open above', min: 0.1, max: 0.95, step: 0.01},
+    {key: 'mouthClose', label: 'Mouth: closed below', min: 0.05, max: 0.9, step: 0.01},
+    {key: 'mouthHoldMs', label: 'Mouth: hold (ms)', min: 0, max: 1500, step: 50},
+    {key: 'browRaise', label: 'Brows: raised above', min: 0.1, max: 0.95, step: 0.01},
+    {key: 'browRelax', label: 'Brows: relaxed below', min: 0.05, max: 0.9, step: 0.01},
+    {key: 'browHoldMs', label: 'Brows: hold (ms)', min: 0, max: 1500, step: 50},
+    {key: 'cooldownMs', label: 'Cooldown (ms)', min: 0, max: 1500, step: 50},
+];
+
+const TRIGGER_LABELS: Record<FireTrigger, string> = {
+    recoil: 'Recoil flick',
+    pinch: 'Pinch',
+    thumbDrop: 'Thumb drop',
+    dwell: 'Dwell',
+};
+
+/**
+ * Per-user gesture tuning: fire trigger + thresholds, or hands-free face controls.
+ * Changes apply live and persist in localStorage.
+ */
+export const GestureSettings = () => {
+    const config = useGestureConfig();
+    const face = useFaceControlConfig();
+    const [open, setOpen] = useState(false);
+
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+    const sliders = [...TRIGGER_SLIDERS[config.trigger], ...COMMON_SLIDERS];
+
+    return (
+        <div className="flex flex-col items-end gap-1.5 text-white/60 text-xs font-mono">
+            <button onClick={() => setOpen(!open)} className={buttonClass}>
+                Gestures: {face.enabled ? 'Face (hands-free)' : TRIGGER_LABELS[config.trigger]}
+            </button>
+
+            {open && (
+                <div className="bg-black/70 border border-white/20 rounded p-2 flex flex-col gap-1.5 w-64">
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={face.enabled}
+                            onChange={e => updateFaceControlConfig({enabled: e.target.checked})}
+                        />
+                        Face controls (hands-free)
+                    </label>
+
+                    {face.enabled ? (
+                        <>
+                            <p className="text-white/40">
+                                Head aims. Long blink: fire. Open mouth: start / resume. Raise brows: pause.
+                            </p>
+
+                            {FACE_SLIDERS.map(({key, label, min, max, step}) => (
+                                <label key={key} className="flex flex-col">
+                                    <span className="flex justify-between">
+                                        {label}
+                                        <span className="text-white">{face[key]}</span>
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min={min}
+                                        max={max}
+                                        step={step}
+                                        value={face[key] as number}
+                                        onChange={e => updateFaceControlConfig({[key]: Number(e.target.value)})}
+                                    />
+                                </label>
+                            ))}
+                        </>
+                    ) : (
+                        <>
+                            <label className="flex items-center justify-between gap-2">
+                                Fire trigger
+                                <select
+                                    value={config.trigger}
+                                    onChange={e => updateGestureConfig({trigger: e.target.value as FireTrigger})}
+                                    className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white"
+                                >
+                                    {FIRE_TRIGGERS.map(trigger => (
+                                        <option key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</option>
+                                    ))}
+                                </select>
+                            </label>
+
+                            {sliders.map(({key, label, min, max, step}) => (
+                                <label key={key} className="flex flex-col">
+                                    <span className="flex justify-between">
+                                        {label}
+                                        <span className="text-white">{config[key]}</span>
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min={min}
+                                        max={max}
+                                        step={step}
+                                        value={config[key] as number}
+                                        onChange={e => updateGestureConfig({[key]: Number(e.target.value)})}
+                                    />
+                                </label>
+                            ))}
+                        </>
+                    )}
+
+                    <button
+                        onClick={face.enabled ? resetFaceControlConfig : resetGestureConfig}
+                        className={`${buttonClass} self-end`}
+                    >
+                        Reset to defaults
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
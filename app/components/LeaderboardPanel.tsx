@@ -0,0 +1,119 @@
+import {FormEvent, useEffect, useState} from 'react';
+import {
+    fetchScores,
+    LEADERBOARD_LIMITS,
+    normalizeInitials,
+    qualifiesForList,
+    ScoreEntry,
+    submitScore
+} from '../game/leaderboard';
+
+interface LeaderboardPanelProps {
+    mode: string;
+    result: { score: number; hits: number; shots: number; bestCombo: number };
+    onDone: () => void; // Initials saved / skipped, or the score didn't qualify (keep it stable)
+}
+
+type Stage = 'loading' | 'entry' | 'saving' | 'done';
+
+/**
+ * End-of-round leaderboard: asks for initials when the score makes the top list, then shows the list.
+ * Mounted fresh for every results screen.
+ */
+export const LeaderboardPanel = ({mode, result, onDone}: LeaderboardPanelProps) => {
+    const [stage, setStage] = useState<Stage>('loading');
+    const [scores, setScores] = useState<ScoreEntry[]>([]);
+    const [initials, setInitials] = useState('');
+    const [rank, setRank] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchScores(mode)
+            .then(list => {
+                if (cancelled) return;
+                setScores(list);
+                if (qualifiesForList(result.score, list)) {
+                    setStage('entry');
+                } else {
+                    setStage('done');
+                    onDone();
+                }
+            })
+            .catch(err => {
+                if (cancelled) return;
+                setError(err instanceof Error ? err.message : String(err));
+                setStage('done');
+                onDone();
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [mode, result.score, onDone]);
+
+    const finish = () => {
+        setStage('done');
+        onDone();
+    };
+
+    const save = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!initials) return;
+
+        setStage('saving');
+        try {
+            const saved = await submitScore({mode, initials, ...result});
+            setScores(saved.scores);
+            setRank(saved.rank);
+            setError(null);
+            finish();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            setStage('entry'); // Let them try again or skip
+        }
+    };
+
+    const buttonClass = 'bg-white/10 border border-white/30 rounded px-3 py-1 hover:bg-white/20 pointer-events-auto';
+
+    return (
+        <div className="mt-5 text-left text-sm">
+            {stage === 'loading' && <p className="text-white/50 text-center">Loading leaderboard...</p>}
+
+            {(stage === 'entry' || stage === 'saving') && (
+                <form onSubmit={save} className="flex flex-col items-center gap-2">
+                    <p className="text-yellow-300 font-bold">NEW HIGH SCORE! Enter your initials</p>
+                    <input
+                        autoFocus
+                        value={initials}
+                        onChange={e => setInitials(normalizeInitials(e.target.value))}
+                        maxLength={LEADERBOARD_LIMITS.INITIALS_LENGTH}
+                        className="w-28 bg-black/50 border border-white/40 rounded text-center text-3xl tracking-[0.3em] uppercase pointer-events-auto"
+                        aria-label="Initials"
+                    />
+                    <div className="flex gap-2">
+                        <button type="submit" disabled={!initials || stage === 'saving'} className={buttonClass}>
+                            {stage === 'saving' ? 'Saving...' : 'Save'}
+                        </button>
+                        <button type="button" onClick={finish} className={buttonClass}>Skip</button>
+                    </div>
+                </form>
+            )}
+
+            {error && <p className="mt-2 text-red-400 text-center">{error}</p>}
+
+            {stage === 'done' && scores.length > 0 && (
+                <ol className="mx-auto w-64">
+                    {scores.map((entry, i) => (
+                        <li
+                            key={`${entry.createdAt}-${i}`}
+                            className={`flex justify-between ${i + 1 === rank ? 'text-yellow-300 font-bold' : 'text-white/70'}`}
+                        >
+                            <span>{String(i + 1).padStart(2, ' ')}. {entry.initials}</span>
+                            <span>{entry.score}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
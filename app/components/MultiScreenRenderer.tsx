@@ -0,0 +1,39 @@
+import {useMemo} from 'react';
+import {useFrame} from '@react-three/fiber';
+import * as THREE from 'three';
+import {applyGeneralizedProjection} from '../utils/parallaxUtils';
+import {ScreenLayout} from '../utils/screenLayout';
+
+interface MultiScreenRendererProps {
+    layout: ScreenLayout;
+}
+
+/**
+ * Renders one view per screen of the layout into that screen's part of the canvas, each with a generalized
+ * off-axis projection through the screen's corners from the tracked eye. Takes over rendering while mounted
+ * (useFrame priority 1); the eye is the viewpoint ParallaxCamera placed this frame.
+ */
+export const MultiScreenRenderer = ({layout}: MultiScreenRendererProps) => {
+    const cameras = useMemo(() => layout.screens.map(() => new THREE.PerspectiveCamera()), [layout]);
+
+    useFrame(({gl, scene, camera, size}) => {
+        gl.clear(); // Canvas areas no screen covers
+        gl.setScissorTest(true);
+        layout.screens.forEach(({corners, viewport}, i) => {
+            applyGeneralizedProjection(cameras[i], camera.position, corners);
+
+            // Viewport fractions are from the top-left; GL's origin is bottom-left
+            const x = viewport.x * size.width;
+            const y = (1 - viewport.y - viewport.height) * size.height;
+            const width = viewport.width * size.width;
+            const height = viewport.height * size.height;
+            gl.setViewport(x, y, width, height);
+            gl.setScissor(x, y, width, height);
+            gl.render(scene, cameras[i]);
+        });
+        gl.setScissorTest(false);
+        gl.setViewport(0, 0, size.width, size.height);
+    }, 1);
+
+    return null;
+};
@@ -0,0 +1,119 @@
+import {ChangeEvent, useEffect, useState} from 'react';
+import {parseRecording, serializeRecording, TrackingRecorder, TrackingRecording} from '../tracking/recording';
+import {ReplayControls, ReplayState} from '../tracking/replaySource';
+import {TrackingSourceKind} from '../tracking/types';
+
+interface RecordingControlsProps {
+    recorder: TrackingRecorder;
+    activeSource: TrackingSourceKind | null;
+    replayControls: ReplayControls | null;
+    onLoadRecording: (recording: TrackingRecording) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (ms: number) => {
+    const totalSec = Math.floor(ms / 1000);
+    return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+const downloadRecording = (recording: TrackingRecording) => {
+    const blob = new Blob([serializeRecording(recording)], {type: 'application/x-ndjson'});
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tracking-${recording.header.createdAt.replace(/[:.]/g, '-')}.ptrack.jsonl`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Record the live tracking stream to a file, or load one and replay it with play/pause/seek/speed.
+ */
+export const RecordingControls = ({recorder, activeSource, replayControls, onLoadRecording}: RecordingControlsProps) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [frameCount, setFrameCount] = useState(0);
+    const [replayState, setReplayState] = useState<ReplayState | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Poll recorder / replay progress (cheap, and keeps the hot tracking loop free of React updates)
+    useEffect(() => {
+        if (!isRecording && !replayControls) return;
+        const id = window.setInterval(() => {
+            setFrameCount(recorder.frameCount());
+            setReplayState(replayControls ? replayControls.getState() : null);
+        }, 200);
+        return () => window.clearInterval(id);
+    }, [isRecording, recorder, replayControls]);
+
+    const toggleRecording = () => {
+        if (recorder.isRecording()) {
+            downloadRecording(recorder.stop());
+            setIsRecording(false);
+        } else {
+            recorder.start(activeSource ?? 'mediapipe');
+            setIsRecording(true);
+        }
+    };
+
+    const loadFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow loading the same file again
+        if (!file) return;
+
+        try {
+            onLoadRecording(parseRecording(await file.text()));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+
+    return (
+        <div className="flex flex-col gap-1.5 text-white/60 text-xs font-mono">
+            <div className="flex items-center gap-2">
+                <button onClick={toggleRecording} className={buttonClass}>
+                    {isRecording ? <span className="text-red-400">■ Stop ({frameCount})</span> : '● Record'}
+                </button>
+                <label className={`${buttonClass} cursor-pointer`}>
+                    Load replay
+                    <input type="file" accept=".jsonl,.ndjson" onChange={loadFile} className="hidden"/>
+                </label>
+            </div>
+
+            {replayControls && replayState && (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => replayState.playing ? replayControls.pause() : replayControls.play()}
+                        className={buttonClass}
+                    >
+                        {replayState.playing ? 'Pause' : 'Play'}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={replayState.durationMs}
+                        value={replayState.positionMs}
+                        onChange={e => {
+                            replayControls.seek(Number(e.target.value));
+                            setReplayState(replayControls.getState());
+                        }}
+                        className="w-40"
+                    />
+                    <span>{formatTime(replayState.positionMs)} / {formatTime(replayState.durationMs)}</span>
+                    <select
+                        value={replayState.speed}
+                        onChange={e => replayControls.setSpeed(Number(e.target.value))}
+                        className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white"
+                    >
+                        {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                    </select>
+                </div>
+            )}
+
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+};
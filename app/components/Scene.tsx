@@ -1,37 +1,172 @@
 'use client';
 
 import {Canvas} from '@react-three/fiber';
-import {useEffect, useRef, useState} from 'react';
+import {useEffect, useMemo, useState} from 'react';
 import {ParallaxCamera} from './ParallaxCamera';
 import {useMultimodalTracking} from '../hooks/useMultimodalTracking';
+import {useHeadPoseFilter} from '../hooks/useHeadPoseFilter';
 import {BulletSystem} from './BulletSystem';
-import {TargetSystem, TargetSystemRef} from './TargetSystem'; // Import
+import {AimCrosshair} from './AimCrosshair';
+import {TargetSystem} from './TargetSystem';
+import {SimulationDriver} from './SimulationDriver';
 import {Box, Edges, Environment, Grid} from '@react-three/drei';
+import {ScreenSize} from '../utils/parallaxUtils';
+import {useViewpointSettings} from '../utils/viewpointStore';
+import {PoseFilterKind} from '../utils/poseFilters';
+import {TrackingSourceKind} from '../tracking/types';
+import {TrackingRecording} from '../tracking/recording';
+import {RecordingControls} from './RecordingControls';
+import {TrackingStatus} from './TrackingStatus';
+import {GestureSettings} from './GestureSettings';
+import {StereoRenderer} from './StereoRenderer';
+import {MultiScreenRenderer} from './MultiScreenRenderer';
+import {DioramaModel} from './DioramaModel';
+import {DioramaPanel} from './DioramaPanel';
+import {CalibrationWizard} from './CalibrationWizard';
+import {StereoSettings} from './StereoSettings';
+import {CameraSettings} from './CameraSettings';
+import {DiagnosticsPanel} from './DiagnosticsPanel';
+import {DiagnosticsProbe} from './DiagnosticsProbe';
+import {SettingsDock} from './SettingsDock';
+import {WebcamPreview} from './WebcamPreview';
+import {TrackingSourcePicker} from './TrackingSourcePicker';
+import {ViewpointPicker} from './ViewpointPicker';
+import {useStereoConfig} from '../utils/stereoConfigStore';
+import {useCalibration} from '../utils/calibrationStore';
+import {useWebcamSettings} from '../tracking/webcamSettingsStore';
+import {GameHud} from './GameHud';
+import {useGameState} from '../hooks/useGameState';
+import {useLevel} from '../hooks/useLevel';
+import {useScreenLayout} from '../hooks/useScreenLayout';
+import {useDiorama} from '../hooks/useDiorama';
+import {DioramaSource, isModelFile, LIGHTING_PRESETS, LightingPreset, RoomSize} from '../utils/diorama';
+import {createSimulation, EffectPoolConfig} from '../game/simulation';
+import {FaceAction} from '../tracking/faceControls';
 
 // --- Dimensions Configuration ---
 // Base height for consistent scaling
 const BASE_SCREEN_HEIGHT = 22.5;
 const ROOM_DEPTH = 60;
 
-export default function Scene() {
+// --- Tracking Configuration ---
+// Head-pose filter: 'oneEuro' | 'kalman' | 'none', predicting RENDER_LATENCY_MS ahead
+const HEAD_FILTER: PoseFilterKind = 'oneEuro';
+const RENDER_LATENCY_MS = 30;
+// Selectable input sources; can also be preset with ?source=mouse (e.g. for machines without a webcam)
+const TRACKING_SOURCES: TrackingSourceKind[] = ['mediapipe', 'mouse', 'keyboard'];
+
+// --- Game Configuration ---
+// Level file in public/levels/ (can also be picked with ?level=<id>). Rounds are ranked per level.
+const DEFAULT_LEVEL_ID = 'classic';
+// Preallocated bullets / explosion fragments; when full, the oldest is recycled (or 'dropNewest')
+const EFFECT_POOLS: EffectPoolConfig = {
+    bullets: 100,
+    fragments: 240,
+    bulletOverflow: 'recycleOldest',
+    fragmentOverflow: 'recycleOldest'
+};
+
+// --- Window Mode ---
+// 'game': the target game; 'window': a glTF / GLB model in the room, no game (?mode=window, ?model=<path>, or drop a file)
+type AppMode = 'game' | 'window';
+const DEFAULT_WINDOW_LIGHTING: LightingPreset = 'studio';
+
+interface SceneProps {
+    initialSource?: string; // From ?source=mouse|keyboard|mediapipe
+    initialLevel?: string;  // From ?level=<id>
+    screenLayout?: string;  // From ?screens=<id>: several displays (public/screens/<id>.json)
+    initialMode?: string;   // From ?mode=window
+    initialModel?: string;  // From ?model=/models/<file>.glb (opens window mode)
+    seed: number;           // From ?seed=<number|daily|text>, or random
+    seedFixed: boolean;     // Seed came from the URL: every round replays it
+}
+
+export default function Scene({initialSource, initialLevel, screenLayout, initialMode, initialModel, seed, seedFixed}: SceneProps) {
+    const [trackingSource, setTrackingSource] = useState<TrackingSourceKind>(
+        TRACKING_SOURCES.find(kind => kind === initialSource) ?? 'mediapipe'
+    );
+    const [recording, setRecording] = useState<TrackingRecording | null>(null);
+    // Game rules, targets, bullets and score (plain TypeScript); the components below only draw it
+    const [simulation] = useState(() => createSimulation({seed, seedFixed, pools: EFFECT_POOLS}));
+    const [mode, setMode] = useState<AppMode>(initialMode === 'window' || initialModel ? 'window' : 'game');
+    const [calibrating, setCalibrating] = useState(false);
+    const [diagnosticsOpen, setDiagnosticsOpen] = useState(false);
+    const {state: game, send} = useGameState(simulation, mode === 'game' && !calibrating); // Round flow + score
+    const calibration = useCalibration(); // Screen size + webcam placement (calibration wizard)
+    const {level, error: levelError} = useLevel(initialLevel ?? DEFAULT_LEVEL_ID);
+    const stereo = useStereoConfig(); // 3D output mode + eye distance
+    const camera = useWebcamSettings(); // Webcam device + capture mode
+    const {viewpoint} = useViewpointSettings(); // Point of the face the perspective is rendered from
+    // The stereo eyes are placed around the midpoint between the eyes, so stereo always tracks that point
+    const trackedViewpoint = stereo.mode === 'off' ? viewpoint : 'eyeMidpoint';
+    const {layout, error: layoutError} = useScreenLayout(screenLayout ?? null);
+
+    // Window mode model + lighting
+    const [dioramaSource, setDioramaSource] = useState<DioramaSource | null>(
+        initialModel ? {kind: 'url', url: initialModel} : null
+    );
+    const [windowLighting, setWindowLighting] = useState<LightingPreset>(DEFAULT_WINDOW_LIGHTING);
+    const {diorama, loading: dioramaLoading, error: dioramaError} = useDiorama(dioramaSource);
+    const lightingPreset = mode === 'window' ? windowLighting : 'city';
+    const lighting = LIGHTING_PRESETS[lightingPreset];
+
+    const openWindowMode = (files: File[]) => {
+        setDioramaSource({kind: 'files', files});
+        if (mode === 'game') send({type: 'quit'}); // The round is abandoned
+        setMode('window');
+    };
+
+    // Waves and round length come from the level
+    useEffect(() => {
+        if (level) simulation.setLevel(level);
+    }, [level, simulation]);
+
+    // Hands-free face controls: brow raise pauses, mouth open starts / resumes (like P and Enter).
+    // Not on the results screen: a shot (blink) restarts from there once the initials are done.
+    const onFaceAction = (action: FaceAction) => {
+        if (mode !== 'game' || calibrating) return;
+        if (action === 'pause') send({type: 'pause'});
+        else if (game.phase !== 'results') send({type: game.phase === 'paused' ? 'resume' : 'start'});
+    };
+
     // UPDATED: Use Multimodal Hook
-    const {facePosition, facePositionRef, handData, videoRef} = useMultimodalTracking();
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const targetsRef = useRef<TargetSystemRef>(null); // Shared Ref
+    const {
+        facePosition,
+        facePositionRef,
+        hands,
+        handsRef,
+        videoRef,
+        activeSource,
+        sourceError,
+        sourceErrorKind,
+        videoSize,
+        recorder,
+        diagnostics,
+        replayControls,
+        retry
+    } = useMultimodalTracking({viewpoint: trackedViewpoint, source: trackingSource, recording, camera, onFaceAction});
+    const sampleHeadPose = useHeadPoseFilter(facePositionRef, {filter: HEAD_FILTER, latencyMs: RENDER_LATENCY_MS});
 
     // Responsive screen dimensions based on viewport aspect ratio
-    const [screenSize, setScreenSize] = useState({
+    const [screenSize, setScreenSize] = useState<ScreenSize>({
         width: BASE_SCREEN_HEIGHT * (16 / 9),
-        height: BASE_SCREEN_HEIGHT
+        height: BASE_SCREEN_HEIGHT,
+        widthCm: calibration.screenWidthCm,
+        heightCm: calibration.screenHeightCm
     });
+    const {screenWidthCm, screenHeightCm} = calibration;
 
     // Update screen dimensions on window resize
     useEffect(() => {
         const updateScreenSize = () => {
             const aspectRatio = window.innerWidth / window.innerHeight;
+            // Physical size of the canvas: the fraction of the monitor the window covers
+            // (equals the full monitor size in fullscreen)
             setScreenSize({
                 width: BASE_SCREEN_HEIGHT * aspectRatio,
-                height: BASE_SCREEN_HEIGHT
+                height: BASE_SCREEN_HEIGHT,
+                widthCm: screenWidthCm * (window.innerWidth / window.screen.width),
+                heightCm: screenHeightCm * (window.innerHeight / window.screen.height)
             });
         };
 
@@ -43,72 +178,14 @@ export default function Scene() {
 
         // Cleanup
         return () => window.removeEventListener('resize', updateScreenSize);
-    }, []);
+    }, [screenWidthCm, screenHeightCm]);
 
     const SCREEN_WIDTH = screenSize.width;
     const SCREEN_HEIGHT = screenSize.height;
-
-    // Draw Overlay (Face + Hand)
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        // Configuration
-        const w = canvas.width;
-        const h = canvas.height;
-
-        // Clear
-        ctx.clearRect(0, 0, w, h);
-
-        // 1. Draw Hand / Gesture Feedback
-        if (handData) {
-            // Draw Reticle if Gun Pose
-            if (handData.isGunPose) {
-                const tip = handData.indexTipPos;
-                const tx = tip.x * w;
-                const ty = tip.y * h;
-
-                ctx.save();
-                ctx.strokeStyle = '#ff3333';
-                ctx.lineWidth = 3;
-                ctx.shadowBlur = 10;
-                ctx.shadowColor = 'red';
-
-                // Draw Crosshair
-                ctx.beginPath();
-                ctx.arc(tx, ty, 20, 0, Math.PI * 2);
-                ctx.moveTo(tx - 30, ty);
-                ctx.lineTo(tx + 30, ty);
-                ctx.moveTo(tx, ty - 30);
-                ctx.lineTo(tx, ty + 30);
-                ctx.stroke();
-
-                if (handData.isFiring) {
-                    ctx.fillStyle = 'rgba(255, 255, 0, 0.5)';
-                    ctx.fill();
-                }
-                ctx.restore();
-            }
-
-            // Optional: Draw processed skeleton or just Index Tip
-            ctx.fillStyle = '#00ff00';
-            ctx.beginPath();
-            ctx.arc(handData.indexTipPos.x * w, handData.indexTipPos.y * h, 5, 0, Math.PI * 2);
-            ctx.fill();
-        }
-
-        // 2. Draw Face Feedback (Simplified Box)
-        if (facePosition.detected) {
-            // We don't have raw face landmarks here anymore to keep performance high, 
-            // but we can visualize detection status.
-            ctx.fillStyle = '#00ff88';
-            ctx.font = '16px monospace';
-            ctx.fillText("FACE TRACKED", 10, h - 10);
-        }
-
-    }, [facePosition.detected, handData]); // Dependency on handData state updates
+    const room = useMemo<RoomSize>(
+        () => ({width: SCREEN_WIDTH, height: SCREEN_HEIGHT, depth: ROOM_DEPTH}),
+        [SCREEN_WIDTH, SCREEN_HEIGHT]
+    );
 
     // Calculated positions
     const floorY = -SCREEN_HEIGHT / 2;
@@ -118,15 +195,24 @@ export default function Scene() {
     const backZ = -ROOM_DEPTH;
 
     return (
-        <div className="w-full h-full relative bg-black">
+        <div
+            className="w-full h-full relative bg-black"
+            // Dropping a model anywhere opens it in window mode
+            onDragOver={e => e.preventDefault()}
+            onDrop={e => {
+                e.preventDefault();
+                const files = Array.from(e.dataTransfer.files);
+                if (files.some(isModelFile)) openWindowMode(files);
+            }}
+        >
             {/* 3D Scene */}
             <Canvas className="absolute top-0 left-0 z-10" shadows>
-                <color attach="background" args={['#101010']}/>
+                <color attach="background" args={[lighting.background]}/>
 
-                {/* Lighting & Environment */}
-                <ambientLight intensity={0.2}/>
-                <pointLight position={[10, 10, 10]} intensity={1.5} castShadow/>
-                <Environment preset="city"/>
+                {/* Lighting & Environment (the game always uses 'city'; maps are served locally, see copy-environment-maps) */}
+                <ambientLight intensity={lighting.ambient}/>
+                <pointLight position={[10, 10, 10]} intensity={lighting.key} castShadow/>
+                <Environment files={`/hdri/${lightingPreset}.exr`}/>
 
                 {/* Objects */}
                 {/* FLOOR Grid */}
@@ -205,53 +291,144 @@ export default function Scene() {
                     <Edges color="#333"/>
                 </Box>
 
-                {/* NEW: Targets */}
-                <TargetSystem ref={targetsRef}/>
-
-                {/* NEW: Bullet System */}
-                <BulletSystem
-                    handData={handData}
-                    facePosition={facePosition}
-                    screenSize={screenSize}
-                    targetsRef={targetsRef} // Pass Ref for collision
-                />
+                {mode === 'game' ? (
+                    <>
+                        {/* Simulation: tracking in, fixed steps (mounted before the systems that draw it) */}
+                        <SimulationDriver
+                            simulation={simulation}
+                            handsRef={handsRef}
+                            sampleHeadPose={sampleHeadPose}
+                            screenSize={screenSize}
+                            calibration={calibration}
+                        />
+
+                        {/* Targets: waves from the level file */}
+                        <TargetSystem simulation={simulation}/>
+
+                        {/* Bullets + explosion debris */}
+                        <BulletSystem simulation={simulation}/>
+
+                        {/* In-world Crosshairs (same aim mapping as bullets) */}
+                        <AimCrosshair hands={hands} screenSize={screenSize}/>
+                    </>
+                ) : (
+                    // Window mode: the user's model, fitted to the room
+                    diorama && <DioramaModel diorama={diorama} room={room}/>
+                )}
 
                 {/* Camera Controller */}
                 <ParallaxCamera
-                    facePosition={facePosition}
-                    facePositionRef={facePositionRef}
+                    sampleHeadPose={sampleHeadPose}
                     screenSize={screenSize}
+                    calibration={calibration}
                 />
-            </Canvas>
 
-            {/* UI Overlay / Debug */}
-            <div
-                className="absolute top-4 left-4 z-20 bg-black/50 p-4 rounded text-white font-mono text-sm pointer-events-none">
-                <p>Tracking: {facePosition.detected ? <span className="text-green-400">FACE ACTIVE</span> :
-                    <span className="text-red-400">FACE LOST</span>}</p>
-                <p>Hand: {handData ? (handData.isGunPose ?
-                    <span className="text-red-500 font-bold">GUN DETECTED</span> : "Hand Visible") : "No Hand"}</p>
-                {handData?.isFiring && <p className="text-yellow-400 font-bold animate-pulse">FIRING!</p>}
-            </div>
+                {/* Render timing + raw vs filtered head (only while the diagnostics panel is open) */}
+                {diagnosticsOpen && (
+                    <DiagnosticsProbe
+                        diagnostics={diagnostics}
+                        facePositionRef={facePositionRef}
+                        sampleHeadPose={sampleHeadPose}
+                    />
+                )}
+
+                {/* Multi-screen: one view per display of the layout; otherwise stereo: one frustum per eye,
+                    combined for the display (either takes over rendering) */}
+                {layout
+                    ? <MultiScreenRenderer layout={layout}/>
+                    : stereo.mode !== 'off' && <StereoRenderer config={stereo} screenSize={screenSize}/>}
+            </Canvas>
 
-            {/* Hidden Webcam for processing */}
-            <video
-                ref={videoRef}
-                autoPlay
-                playsInline
-                muted
-                className="absolute top-4 right-4 w-32 h-24 object-cover opacity-50 z-20 rounded border border-white/20 pointer-events-auto"
-                style={{transform: 'scaleX(-1)'}}
-            />
-            {/* Overlay Canvas */}
-            <canvas
-                ref={canvasRef}
-                width={640} // Default webcam resolution for coordinate mapping
-                height={480}
-                className="absolute top-4 right-4 w-32 h-24 z-30 pointer-events-none rounded border border-white/20"
-                style={{transform: 'scaleX(-1)'}}
+            {mode === 'game' ? (
+                // HUD: score, timer, combo + round screens
+                <GameHud
+                    game={game}
+                    send={send}
+                    faceDetected={facePosition.detected}
+                    hands={hands}
+                    activeSource={activeSource}
+                    level={level}
+                    levelError={levelError}
+                    layoutError={layoutError}
+                    seed={simulation.getRoundSeed()} // `?seed=<it>` replays this round exactly
+                />
+            ) : (
+                // Window mode: open a model, lighting, back to the game
+                <DioramaPanel
+                    name={diorama?.name ?? null}
+                    loading={dioramaLoading}
+                    error={dioramaError ?? layoutError}
+                    lighting={windowLighting}
+                    onLightingChange={setWindowLighting}
+                    onOpenFiles={openWindowMode}
+                    onExit={() => setMode('game')}
+                />
+            )}
+
+            {/* Tracking Loading / Error State */}
+            <TrackingStatus
+                requestedSource={trackingSource}
+                activeSource={activeSource}
+                error={sourceError}
+                errorKind={sourceErrorKind}
+                onRetry={retry}
             />
 
+            {/* Webcam preview + per-user settings (top right) */}
+            <SettingsDock corner="topRight">
+                <WebcamPreview videoRef={videoRef} videoSize={videoSize} hands={hands} faceDetected={facePosition.detected}/>
+
+                {/* Webcam Placement + Screen Size */}
+                <button
+                    onClick={() => {
+                        send({type: 'pause'});
+                        setCalibrating(true);
+                    }}
+                    className="bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white/80 text-xs font-mono hover:bg-white/10"
+                >
+                    Calibrate{calibration.calibratedAt ? '' : ' (not calibrated)'}
+                </button>
+
+                {/* Webcam Device + Resolution */}
+                <CameraSettings videoSize={videoSize}/>
+
+                {/* Fire Trigger + Gesture Thresholds (per user) */}
+                <GestureSettings/>
+
+                {/* Stereo Output Mode + Eye Distance */}
+                <StereoSettings/>
+            </SettingsDock>
+
+            {/* Input, recording and diagnostics (bottom left) */}
+            <SettingsDock corner="bottomLeft">
+                {/* Performance, Head Filter + Gesture Internals */}
+                <DiagnosticsPanel diagnostics={diagnostics} open={diagnosticsOpen} onOpenChange={setDiagnosticsOpen}/>
+
+                {/* Session Record / Replay */}
+                <RecordingControls
+                    recorder={recorder}
+                    activeSource={activeSource}
+                    replayControls={replayControls}
+                    onLoadRecording={loaded => {
+                        setRecording(loaded);
+                        setTrackingSource('replay');
+                    }}
+                />
+
+                {/* Tracking Source Picker */}
+                <TrackingSourcePicker
+                    sources={TRACKING_SOURCES}
+                    value={trackingSource}
+                    replayAvailable={recording !== null}
+                    onChange={setTrackingSource}
+                />
+                <ViewpointPicker disabled={stereo.mode !== 'off'}/>
+            </SettingsDock>
+
+            {calibrating && (
+                <CalibrationWizard facePositionRef={facePositionRef} onClose={() => setCalibrating(false)}/>
+            )}
+
             {/* Links Overlay */}
             <div
                 className="absolute bottom-4 right-4 z-20 flex items-center gap-1.5 text-white/40 text-xs font-light tracking-wider pointer-events-auto select-none">
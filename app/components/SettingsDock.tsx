@@ -0,0 +1,24 @@
+import {ReactNode} from 'react';
+
+type DockCorner = 'topRight' | 'bottomLeft';
+
+// Anchored to the corner; items keep their order and push each other as panels open
+const CORNER_CLASSES: Record<DockCorner, string> = {
+    topRight: 'top-4 right-4 items-end',
+    bottomLeft: 'bottom-4 left-4 items-start',
+};
+
+interface SettingsDockProps {
+    corner: DockCorner;
+    children: ReactNode;
+}
+
+/**
+ * Column of overlay controls in one corner of the screen. Controls placed here don't position
+ * themselves, so opening one panel moves the others instead of covering them.
+ */
+export const SettingsDock = ({corner, children}: SettingsDockProps) => (
+    <div className={`absolute ${CORNER_CLASSES[corner]} z-20 flex flex-col gap-2 max-h-[calc(100%-3rem)] overflow-y-auto pointer-events-none *:pointer-events-auto`}>
+        {children}
+    </div>
+);
@@ -0,0 +1,62 @@
+import {RefObject, useMemo, useRef} from 'react';
+import {useFrame} from '@react-three/fiber';
+import {HandData, Handedness} from '../tracking/types';
+import {HeadPoseSampler} from '../hooks/useHeadPoseFilter';
+import {calculateAimPoint, calculateCameraPosition, CameraCalibration, ScreenSize} from '../utils/parallaxUtils';
+import {AimInput, createFixedTimestep, Simulation} from '../game/simulation';
+
+interface SimulationDriverProps {
+    simulation: Simulation;
+    handsRef: RefObject<HandData[]>; // Latest tracking frame, read every render frame (no React state)
+    sampleHeadPose: HeadPoseSampler; // Same filtered pose as ParallaxCamera
+    screenSize: ScreenSize;
+    calibration: CameraCalibration; // Same webcam placement as ParallaxCamera
+}
+
+/**
+ * Feeds tracking into the simulation and advances it in fixed steps every frame. Renders nothing;
+ * mount it before the systems that draw the simulation, so they see this frame's state.
+ */
+export const SimulationDriver = ({simulation, handsRef, sampleHeadPose, screenSize, calibration}: SimulationDriverProps) => {
+    const advance = useMemo(() => createFixedTimestep(), []);
+    // A trigger pull is true on one tracking frame only. It's held here until a step has seen it,
+    // so a render frame that runs no step doesn't lose it and one that runs several doesn't repeat it.
+    const pendingShots = useRef<Record<Handedness, boolean>>({left: false, right: false});
+    const lastHands = useRef<HandData[] | null>(null);
+
+    useFrame((state, delta) => {
+        const hands = handsRef.current;
+        if (hands !== lastHands.current) {
+            lastHands.current = hands;
+            hands.forEach(hand => {
+                if (hand.isFiring) pendingShots.current[hand.handedness] = true;
+            });
+        }
+
+        // We want to shoot FROM the user (Camera) THROUGH the point on the screen the fingertip aims at.
+        // Because the ray starts at the eye, the bullet always stays under the crosshair from the user's view.
+        const aiming = hands.filter(hand => hand.isGunPose);
+        (Object.keys(pendingShots.current) as Handedness[]).forEach(handedness => {
+            if (!aiming.some(hand => hand.handedness === handedness)) pendingShots.current[handedness] = false; // Dropped the gun
+        });
+        const eye = aiming.length > 0
+            ? calculateCameraPosition(sampleHeadPose(performance.now()), screenSize, calibration)
+            : null;
+        const aims: AimInput[] = eye ? aiming.map(hand => ({
+            owner: hand.handedness,
+            origin: eye,
+            direction: calculateAimPoint(hand.indexTipPos, screenSize).sub(eye).normalize(),
+            firing: pendingShots.current[hand.handedness]
+        })) : [];
+
+        advance(delta * 1000, dtMs => {
+            simulation.step(dtMs, {aims});
+            aims.forEach(aim => {
+                aim.firing = false;
+                pendingShots.current[aim.owner] = false;
+            });
+        });
+    });
+
+    return null;
+};
@@ -0,0 +1,162 @@
+import {useEffect, useMemo} from 'react';
+import {useFrame} from '@react-three/fiber';
+import * as THREE from 'three';
+import {applyOffAxisProjection, ScreenSize} from '../utils/parallaxUtils';
+import {calculateEyePositions, StereoConfig, StereoMode} from '../utils/stereo';
+
+interface StereoRendererProps {
+    config: StereoConfig; // Any mode but 'off'
+    screenSize: ScreenSize;
+}
+
+// Fullscreen quad, already in clip space
+const COMPOSITE_VERTEX = /* glsl */ `
+varying vec2 vUv;
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}`;
+
+// Eyes are rendered into linear HDR targets, so tone mapping happens here (before the eyes are mixed)
+const COMPOSITE_COMMON = /* glsl */ `
+uniform sampler2D leftEye;
+uniform sampler2D rightEye;
+uniform vec2 resolution; // Drawing buffer size in pixels
+varying vec2 vUv;
+
+vec3 display(vec3 color) {
+#ifdef TONE_MAPPING
+    color = toneMapping(color);
+#endif
+    return clamp(color, 0.0, 1.0);
+}`;
+
+// Dubois least-squares red/cyan mix: fewer ghosts and better colors than dropping channels
+const ANAGLYPH_FRAGMENT = /* glsl */ `
+${COMPOSITE_COMMON}
+void main() {
+    vec3 l = display(texture2D(leftEye, vUv).rgb);
+    vec3 r = display(texture2D(rightEye, vUv).rgb);
+    gl_FragColor = vec4(clamp(vec3(
+        dot(vec3(0.456, 0.500, 0.176), l) + dot(vec3(-0.043, -0.088, -0.002), r),
+        dot(vec3(-0.040, -0.038, -0.016), l) + dot(vec3(0.378, 0.734, -0.018), r),
+        dot(vec3(-0.015, -0.021, -0.005), l) + dot(vec3(-0.072, -0.113, 1.226), r)
+    ), 0.0, 1.0), 1.0);
+    #include <colorspace_fragment>
+}`;
+
+// Even rows (counted from the top) show the left eye. If the canvas doesn't start on an even row of the
+// monitor, the polarization is the other way round: use "swap eyes".
+const INTERLACED_FRAGMENT = /* glsl */ `
+${COMPOSITE_COMMON}
+void main() {
+    float row = resolution.y - 1.0 - floor(gl_FragCoord.y);
+    vec3 color = mod(row, 2.0) < 1.0 ? texture2D(leftEye, vUv).rgb : texture2D(rightEye, vUv).rgb;
+    gl_FragColor = vec4(display(color), 1.0);
+    #include <colorspace_fragment>
+}`;
+
+const COMPOSITE_FRAGMENTS: Partial<Record<StereoMode, string>> = {
+    anaglyph: ANAGLYPH_FRAGMENT,
+    interlaced: INTERLACED_FRAGMENT,
+};
+
+/**
+ * Renders the scene once per eye, each with its own off-axis frustum through the screen, and combines the
+ * two images for the selected display. Takes over rendering while mounted (useFrame priority 1); the eyes
+ * sit around the viewpoint ParallaxCamera placed this frame.
+ */
+export const StereoRenderer = ({config, screenSize}: StereoRendererProps) => {
+    const {mode} = config;
+
+    const eyes = useMemo(() => ({
+        cameras: {left: new THREE.PerspectiveCamera(), right: new THREE.PerspectiveCamera()},
+        positions: {left: new THREE.Vector3(), right: new THREE.Vector3()},
+    }), []);
+
+    // Offscreen eyes for the modes that mix them per pixel
+    const targets = useMemo(() => {
+        const options = {type: THREE.HalfFloatType, samples: 4}; // HDR (tone mapped in the composite) + MSAA
+        return {
+            left: new THREE.WebGLRenderTarget(1, 1, options),
+            right: new THREE.WebGLRenderTarget(1, 1, options),
+            bufferSize: new THREE.Vector2(),
+        };
+    }, []);
+
+    const composite = useMemo(() => {
+        const fragmentShader = COMPOSITE_FRAGMENTS[mode];
+        if (!fragmentShader) return null;
+
+        const material = new THREE.ShaderMaterial({
+            vertexShader: COMPOSITE_VERTEX,
+            fragmentShader,
+            uniforms: {
+                leftEye: {value: targets.left.texture},
+                rightEye: {value: targets.right.texture},
+                resolution: {value: new THREE.Vector2(1, 1)},
+            },
+            depthTest: false,
+            depthWrite: false,
+        });
+        const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+        quad.frustumCulled = false;
+        const scene = new THREE.Scene().add(quad);
+        return {material, quad, scene, camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)};
+    }, [mode, targets]);
+
+    useEffect(() => () => {
+        composite?.material.dispose();
+        composite?.quad.geometry.dispose();
+    }, [composite]);
+
+    useEffect(() => () => {
+        targets.left.dispose();
+        targets.right.dispose();
+    }, [targets]);
+
+    useFrame(({gl, scene, camera, size}) => {
+        // Both eyes through the same screen rectangle
+        const unitsPerCm = screenSize.height / screenSize.heightCm;
+        const {left, right} = calculateEyePositions(camera.position, config, unitsPerCm, eyes.positions);
+        applyOffAxisProjection(eyes.cameras.left, left, screenSize);
+        applyOffAxisProjection(eyes.cameras.right, right, screenSize);
+
+        if (composite) {
+            // Each eye offscreen at full resolution, then mixed into the canvas
+            gl.getDrawingBufferSize(targets.bufferSize);
+            const {x: width, y: height} = targets.bufferSize;
+            if (targets.left.width !== width || targets.left.height !== height) {
+                targets.left.setSize(width, height);
+                targets.right.setSize(width, height);
+            }
+
+            gl.setRenderTarget(targets.left);
+            gl.render(scene, eyes.cameras.left);
+            gl.setRenderTarget(targets.right);
+            gl.render(scene, eyes.cameras.right);
+            gl.setRenderTarget(null);
+
+            composite.material.uniforms.resolution.value.copy(targets.bufferSize);
+            gl.render(composite.scene, composite.camera);
+            return;
+        }
+
+        // Frame-packed: each eye squeezed into half of the canvas (left / top first); the TV stretches it back
+        const {width, height} = size;
+        const halves = mode === 'sideBySide'
+            ? {left: [0, 0, width / 2, height], right: [width / 2, 0, width / 2, height]}
+            : {left: [0, height / 2, width, height / 2], right: [0, 0, width, height / 2]}; // GL y is up
+        gl.setScissorTest(true);
+        (['left', 'right'] as const).forEach(eye => {
+            const [x, y, w, h] = halves[eye];
+            gl.setViewport(x, y, w, h);
+            gl.setScissor(x, y, w, h);
+            gl.render(scene, eyes.cameras[eye]);
+        });
+        gl.setScissorTest(false);
+        gl.setViewport(0, 0, width, height);
+    }, 1);
+
+    return null;
+};
@@ -0,0 +1,69 @@
+import {useState} from 'react';
+import {updateStereoConfig, useStereoConfig} from '../utils/stereoConfigStore';
+import {STEREO_LIMITS, STEREO_MODES, StereoMode} from '../utils/stereo';
+
+const MODE_LABELS: Record<StereoMode, string> = {
+    off: 'Off (2D)',
+    anaglyph: 'Anaglyph (red/cyan)',
+    sideBySide: 'Side-by-side',
+    topBottom: 'Top-bottom',
+    interlaced: 'Interlaced rows',
+};
+
+/**
+ * Stereo output mode + interpupillary distance. Changes apply live and persist in localStorage.
+ */
+export const StereoSettings = () => {
+    const config = useStereoConfig();
+    const [open, setOpen] = useState(false);
+
+    const buttonClass = 'bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white hover:bg-white/10';
+
+    return (
+        <div className="flex flex-col items-end gap-1.5 text-white/60 text-xs font-mono">
+            {/* Opens upwards, above the button */}
+            {open && (
+                <div className="bg-black/70 border border-white/20 rounded p-2 flex flex-col gap-1.5 w-64">
+                    <label className="flex items-center justify-between gap-2">
+                        Output
+                        <select
+                            value={config.mode}
+                            onChange={e => updateStereoConfig({mode: e.target.value as StereoMode})}
+                            className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white"
+                        >
+                            {STEREO_MODES.map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+                        </select>
+                    </label>
+
+                    <label className="flex flex-col">
+                        <span className="flex justify-between">
+                            Eye distance (cm)
+                            <span className="text-white">{config.ipdCm.toFixed(1)}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min={STEREO_LIMITS.MIN_IPD_CM}
+                            max={STEREO_LIMITS.MAX_IPD_CM}
+                            step={0.1}
+                            value={config.ipdCm}
+                            onChange={e => updateStereoConfig({ipdCm: Number(e.target.value)})}
+                        />
+                    </label>
+
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={config.swapEyes}
+                            onChange={e => updateStereoConfig({swapEyes: e.target.checked})}
+                        />
+                        Swap eyes
+                    </label>
+                </div>
+            )}
+
+            <button onClick={() => setOpen(!open)} className={buttonClass}>
+                3D: {MODE_LABELS[config.mode]}
+            </button>
+        </div>
+    );
+};
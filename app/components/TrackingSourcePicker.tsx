@@ -0,0 +1,25 @@
+import {TrackingSourceKind} from '../tracking/types';
+
+interface TrackingSourcePickerProps {
+    sources: TrackingSourceKind[];
+    value: TrackingSourceKind;
+    replayAvailable: boolean; // A recording is loaded
+    onChange: (source: TrackingSourceKind) => void;
+}
+
+/**
+ * Input selector: webcam, mouse, keyboard (and replay once a recording is loaded).
+ */
+export const TrackingSourcePicker = ({sources, value, replayAvailable, onChange}: TrackingSourcePickerProps) => (
+    <label className="flex items-center gap-2 text-white/60 text-xs font-mono">
+        Input
+        <select
+            value={value}
+            onChange={e => onChange(e.target.value as TrackingSourceKind)}
+            className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white"
+        >
+            {sources.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+            {replayAvailable && <option value="replay">replay</option>}
+        </select>
+    </label>
+);
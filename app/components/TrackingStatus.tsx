@@ -0,0 +1,77 @@
+import {TrackingSourceKind} from '../tracking/types';
+import {WebcamErrorKind} from '../tracking/webcam';
+
+interface TrackingStatusProps {
+    requestedSource: TrackingSourceKind;
+    activeSource: TrackingSourceKind | null;
+    error: string | null;
+    errorKind?: WebcamErrorKind | null; // Why the webcam couldn't be opened
+    onRetry: () => void;
+}
+
+// What the user can do about each webcam failure
+const WEBCAM_ERROR_HELP: Record<WebcamErrorKind, { title: string; hint: string }> = {
+    denied: {
+        title: 'Camera permission denied',
+        hint: 'Allow camera access for this site (camera icon in the address bar or site settings), then retry.'
+    },
+    notFound: {
+        title: 'No camera found',
+        hint: 'Connect a webcam (or pick another one under Camera), then retry.'
+    },
+    inUse: {
+        title: 'Camera is in use',
+        hint: 'Another application or browser tab is using the camera. Close it, then retry.'
+    },
+    unsupported: {
+        title: 'Camera not available',
+        hint: 'Open the app over HTTPS or on localhost in a current browser.'
+    },
+    failed: {
+        title: 'Camera failed to start',
+        hint: 'Try another camera or resolution under Camera, then retry.'
+    },
+};
+
+/**
+ * Loading / failure feedback for the tracking source, so a missing model or camera never
+ * looks like a silent black screen.
+ */
+export const TrackingStatus = ({requestedSource, activeSource, error, errorKind = null, onRetry}: TrackingStatusProps) => {
+    // 1. Still starting up (downloading models, waiting for camera permission)
+    if (!activeSource && !error) {
+        return (
+            <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+                <p className="bg-black/60 px-4 py-2 rounded text-white/80 font-mono text-sm animate-pulse">
+                    Loading {requestedSource === 'mediapipe' ? 'tracking models' : `${requestedSource} input`}...
+                </p>
+            </div>
+        );
+    }
+
+    // 2. Requested source failed
+    if (error && activeSource !== requestedSource) {
+        const help = errorKind ? WEBCAM_ERROR_HELP[errorKind] : null;
+        return (
+            <div
+                className="absolute top-4 left-1/2 -translate-x-1/2 z-40 max-w-xl bg-red-950/80 border border-red-500/50 rounded p-4 text-white font-mono text-sm pointer-events-auto">
+                <p className="font-bold text-red-300">
+                    {help?.title ?? (requestedSource === 'mediapipe' ? 'Webcam tracking failed to start' : `${requestedSource} input failed to start`)}
+                </p>
+                <p className="mt-1 text-white/80 break-words">{help?.hint ?? error}</p>
+                {help && errorKind === 'failed' && <p className="mt-1 text-white/60 break-words">{error}</p>}
+                <div className="mt-3 flex items-center gap-3">
+                    <button
+                        onClick={onRetry}
+                        className="bg-white/10 border border-white/30 rounded px-3 py-1 hover:bg-white/20"
+                    >
+                        Retry
+                    </button>
+                    {activeSource && <span className="text-white/60">Playing with {activeSource} input for now</span>}
+                </div>
+            </div>
+        );
+    }
+
+    return null;
+};
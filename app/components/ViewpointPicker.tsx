@@ -0,0 +1,35 @@
+import {ViewpointSource, VIEWPOINT_SOURCES} from '../utils/faceGeometry';
+import {updateViewpointSettings, useViewpointSettings} from '../utils/viewpointStore';
+
+const VIEWPOINT_LABELS: Record<ViewpointSource, string> = {
+    eyeMidpoint: 'between the eyes',
+    leftEye: 'left eye',
+    rightEye: 'right eye',
+    nose: 'nose (legacy)',
+};
+
+interface ViewpointPickerProps {
+    disabled: boolean; // Stereo is on: it always renders from between the eyes
+}
+
+/**
+ * Point of the face the perspective is rendered from. Use the dominant eye for one-eyed viewing.
+ */
+export const ViewpointPicker = ({disabled}: ViewpointPickerProps) => {
+    const {viewpoint} = useViewpointSettings();
+
+    return (
+        <label className="flex items-center gap-2 text-white/60 text-xs font-mono">
+            View from
+            <select
+                value={disabled ? 'eyeMidpoint' : viewpoint}
+                disabled={disabled}
+                title={disabled ? 'Stereo 3D renders from between the eyes' : undefined}
+                onChange={e => updateViewpointSettings({viewpoint: e.target.value as ViewpointSource})}
+                className="bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white disabled:opacity-50"
+            >
+                {VIEWPOINT_SOURCES.map(source => <option key={source} value={source}>{VIEWPOINT_LABELS[source]}</option>)}
+            </select>
+        </label>
+    );
+};
@@ -0,0 +1,103 @@
+import {RefObject, useEffect, useRef} from 'react';
+import {HandData} from '../tracking/types';
+import {PLAYER_STYLES} from '../utils/players';
+
+interface WebcamPreviewProps {
+    videoRef: RefObject<HTMLVideoElement | null>; // The tracking source plays the webcam into it
+    videoSize: { width: number; height: number };
+    hands: HandData[];
+    faceDetected: boolean;
+}
+
+/**
+ * Mirrored webcam thumbnail with the tracked hands drawn over it.
+ */
+export const WebcamPreview = ({videoRef, videoSize, hands, faceDetected}: WebcamPreviewProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // Draw Overlay (Face + Hand)
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        // Configuration
+        const w = canvas.width;
+        const h = canvas.height;
+
+        // Clear
+        ctx.clearRect(0, 0, w, h);
+
+        // 1. Draw Hand / Gesture Feedback (one color per hand)
+        hands.forEach(hand => {
+            const color = PLAYER_STYLES[hand.handedness].color;
+
+            // Draw Reticle if Gun Pose
+            if (hand.isGunPose) {
+                const tip = hand.indexTipPos;
+                const tx = tip.x * w;
+                const ty = tip.y * h;
+
+                ctx.save();
+                ctx.strokeStyle = color;
+                ctx.lineWidth = 3;
+                ctx.shadowBlur = 10;
+                ctx.shadowColor = color;
+
+                // Draw Crosshair
+                ctx.beginPath();
+                ctx.arc(tx, ty, 20, 0, Math.PI * 2);
+                ctx.moveTo(tx - 30, ty);
+                ctx.lineTo(tx + 30, ty);
+                ctx.moveTo(tx, ty - 30);
+                ctx.lineTo(tx, ty + 30);
+                ctx.stroke();
+
+                if (hand.isFiring) {
+                    ctx.fillStyle = 'rgba(255, 255, 0, 0.5)';
+                    ctx.fill();
+                }
+                ctx.restore();
+            }
+
+            // Optional: Draw processed skeleton or just Index Tip
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.arc(hand.indexTipPos.x * w, hand.indexTipPos.y * h, 5, 0, Math.PI * 2);
+            ctx.fill();
+        });
+
+        // 2. Draw Face Feedback (Simplified Box)
+        if (faceDetected) {
+            // We don't have raw face landmarks here anymore to keep performance high, 
+            // but we can visualize detection status.
+            ctx.fillStyle = '#00ff88';
+            ctx.font = '16px monospace';
+            ctx.fillText("FACE TRACKED", 10, h - 10);
+        }
+
+    }, [faceDetected, hands, videoSize]); // Dependency on hand state updates (and the canvas size)
+
+    return (
+        <div className="relative w-32">
+            {/* Hidden Webcam for processing */}
+            <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="w-full object-cover opacity-50 rounded border border-white/20"
+                style={{transform: 'scaleX(-1)', aspectRatio: `${videoSize.width} / ${videoSize.height}`}}
+            />
+            {/* Overlay Canvas */}
+            <canvas
+                ref={canvasRef}
+                width={videoSize.width} // Actual webcam resolution for coordinate mapping
+                height={videoSize.height}
+                className="absolute inset-0 w-full z-10 pointer-events-none rounded border border-white/20"
+                style={{transform: 'scaleX(-1)', aspectRatio: `${videoSize.width} / ${videoSize.height}`}}
+            />
+        </div>
+    );
+};
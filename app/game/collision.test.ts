@@ -0,0 +1,37 @@
+import {describe, expect, it} from 'vitest';
+import * as THREE from 'three';
+import {findImpacts, sweepSphere} from './collision';
+
+const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+
+describe('sweepSphere', () => {
+    it('finds the entry point along the segment', () => {
+        expect(sweepSphere(v(0, 0, 10), v(0, 0, -10), v(0, 0, 0), 2)).toBeCloseTo(0.4);
+    });
+
+    it('misses spheres beside, behind or beyond the segment', () => {
+        expect(sweepSphere(v(0, 0, 10), v(0, 0, -10), v(5, 0, 0), 2)).toBeNull();
+        expect(sweepSphere(v(0, 0, 10), v(0, 0, 20), v(0, 0, 0), 2)).toBeNull();
+        expect(sweepSphere(v(0, 0, 10), v(0, 0, 5), v(0, 0, 0), 2)).toBeNull();
+    });
+
+    it('counts starting inside as an impact at the start', () => {
+        expect(sweepSphere(v(0, 0, 1), v(0, 0, -10), v(0, 0, 0), 2)).toBe(0);
+    });
+});
+
+describe('findImpacts', () => {
+    it("catches a fast bullet that ends the step past a target (no tunneling)", () => {
+        const target = {position: v(0, 0, -50), scale: 1};
+        const impacts = findImpacts([{from: v(0, 0, 0), to: v(0, 0, -100)}], [target], undefined, 0.5);
+        expect(impacts).toEqual([{sweep: 0, target, t: expect.closeTo(0.485)}]);
+    });
+
+    it('orders impacts by time, across grid cells', () => {
+        const near = {position: v(0, 0, -10), scale: 1};
+        const far = {position: v(0, 0, -30), scale: 1};
+        const aside = {position: v(20, 0, -20), scale: 1};
+        const impacts = findImpacts([{from: v(0, 0, 0), to: v(0, 0, -40)}], [far, aside, near], undefined, 0);
+        expect(impacts.map(impact => impact.target)).toEqual([near, far]);
+    });
+});
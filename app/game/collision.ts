@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+
+/**
+ * Bullet vs target collision: a uniform grid over the targets (broad phase) and a swept-sphere test along
+ * each bullet's path this frame (narrow phase), so fast bullets can't tunnel through targets at low frame
+ * rates. Impacts are resolved in time-of-impact order by the caller.
+ */
+
+export const COLLISION_DEFAULTS = {
+    CELL_SIZE: 8,       // World units; about two target diameters
+    BULLET_RADIUS: 0.5, // Added to every target's radius
+};
+
+export interface Collider {
+    position: THREE.Vector3;
+    scale: number; // Radius (as on Target)
+}
+
+export interface Sweep {
+    from: THREE.Vector3;
+    to: THREE.Vector3;
+}
+
+export interface Impact<T extends Collider> {
+    sweep: number; // Index of the sweep
+    target: T;
+    t: number;     // Time of impact as a fraction of the frame (0 = start of the segment)
+}
+
+const KEY_OFFSET = 512; // Cell coordinates -512..511 on each axis
+const cellKey = (x: number, y: number, z: number) =>
+    ((x + KEY_OFFSET) * 1024 + (y + KEY_OFFSET)) * 1024 + (z + KEY_OFFSET);
+
+/**
+ * Earliest t in [0, 1] where a point moving from `from` to `to` comes within `radius` of `center`
+ * (null if it never does). Starting inside counts as an impact at t = 0.
+ */
+export const sweepSphere = (from: THREE.Vector3, to: THREE.Vector3, center: THREE.Vector3, radius: number): number | null => {
+    const dx = to.x - from.x, dy = to.y - from.y, dz = to.z - from.z;
+    const mx = from.x - center.x, my = from.y - center.y, mz = from.z - center.z;
+
+    const c = mx * mx + my * my + mz * mz - radius * radius;
+    if (c <= 0) return 0; // Already inside
+
+    const a = dx * dx + dy * dy + dz * dz;
+    if (a === 0) return null; // Not moving
+    const b = mx * dx + my * dy + mz * dz;
+    if (b >= 0) return null; // Moving away
+
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return null; // Passes by
+
+    const t = (-b - Math.sqrt(discriminant)) / a;
+    return t <= 1 ? t : null;
+};
+
+export const createCollisionGrid = <T extends Collider>(cellSize = COLLISION_DEFAULTS.CELL_SIZE) => {
+    const cells = new Map<number, T[]>();
+    const toCell = (v: number) => Math.floor(v / cellSize);
+
+    // Each collider goes into every cell its bounding box touches
+    const rebuild = (colliders: T[]) => {
+        cells.clear();
+        colliders.forEach(collider => {
+            const {position: p, scale: r} = collider;
+            for (let x = toCell(p.x - r); x <= toCell(p.x + r); x++) {
+                for (let y = toCell(p.y - r); y <= toCell(p.y + r); y++) {
+                    for (let z = toCell(p.z - r); z <= toCell(p.z + r); z++) {
+                        const key = cellKey(x, y, z);
+                        const cell = cells.get(key);
+                        if (cell) cell.push(collider);
+                        else cells.set(key, [collider]);
+                    }
+                }
+            }
+        });
+    };
+
+    // Colliders in the cells covered by the sweep's bounding box (grown by `margin`)
+    const query = ({from, to}: Sweep, margin: number, out: Set<T>) => {
+        out.clear();
+        const minX = toCell(Math.min(from.x, to.x) - margin), maxX = toCell(Math.max(from.x, to.x) + margin);
+        const minY = toCell(Math.min(from.y, to.y) - margin), maxY = toCell(Math.max(from.y, to.y) + margin);
+        const minZ = toCell(Math.min(from.z, to.z) - margin), maxZ = toCell(Math.max(from.z, to.z) + margin);
+        for (let x = minX; x <= maxX; x++) {
+            for (let y = minY; y <= maxY; y++) {
+                for (let z = minZ; z <= maxZ; z++) {
+                    cells.get(cellKey(x, y, z))?.forEach(collider => out.add(collider));
+                }
+            }
+        }
+        return out;
+    };
+
+    return {rebuild, query};
+};
+
+/**
+ * Every sweep / collider contact this frame, earliest first. The caller walks them in order, skipping
+ * bullets that already hit something and targets that are already gone, so a bullet stops at the first
+ * target it reaches and two bullets can't both destroy the same one.
+ */
+export const findImpacts = <T extends Collider>(
+    sweeps: Sweep[],
+    colliders: T[],
+    grid = createCollisionGrid<T>(),
+    bulletRadius = COLLISION_DEFAULTS.BULLET_RADIUS
+): Impact<T>[] => {
+    if (sweeps.length === 0 || colliders.length === 0) return [];
+    grid.rebuild(colliders);
+
+    const candidates = new Set<T>();
+    const impacts: Impact<T>[] = [];
+    sweeps.forEach((sweep, index) => {
+        grid.query(sweep, bulletRadius, candidates).forEach(target => {
+            const t = sweepSphere(sweep.from, sweep.to, target.position, target.scale + bulletRadius);
+            if (t !== null) impacts.push({sweep: index, target, t});
+        });
+    });
+
+    return impacts.sort((a, b) => a.t - b.t);
+};
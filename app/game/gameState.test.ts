@@ -0,0 +1,95 @@
+import {describe, expect, it} from 'vitest';
+import {
+    GAME_RULES,
+    GameEvent,
+    gameReducer,
+    GameState,
+    getActivePlayers,
+    getDisplayedPlayers,
+    getMultiplier,
+    getTotals,
+    INITIAL_GAME_STATE
+} from './gameState';
+import {Handedness} from '../tracking/types';
+
+const run = (state: GameState, ...events: GameEvent[]) => events.reduce(gameReducer, state);
+
+// Started round, past the countdown
+const playing = () => run(INITIAL_GAME_STATE, {type: 'start'}, {type: 'tick', dtMs: GAME_RULES.COUNTDOWN_MS});
+
+const hits = (count: number, points = 100, owner: Handedness = 'right'): GameEvent[] =>
+    Array.from({length: count}, () => ({type: 'hit', owner, role: 'standard', points}));
+
+describe('gameReducer', () => {
+    it('runs the countdown before play starts', () => {
+        const countdown = run(INITIAL_GAME_STATE, {type: 'start'});
+        expect(countdown.phase).toBe('countdown');
+        expect(countdown.round).toBe(1);
+        expect(run(countdown, {type: 'tick', dtMs: GAME_RULES.COUNTDOWN_MS - 1}).phase).toBe('countdown');
+        expect(playing().phase).toBe('playing');
+    });
+
+    it('multiplies points by the combo earned before each hit', () => {
+        expect(getMultiplier(0)).toBe(1);
+        expect(getMultiplier(GAME_RULES.COMBO_STEP)).toBe(2);
+        expect(getMultiplier(1000)).toBe(GAME_RULES.MAX_MULTIPLIER);
+
+        const state = run(playing(), ...hits(GAME_RULES.COMBO_STEP + 1));
+        expect(state.players.right.score).toBe(GAME_RULES.COMBO_STEP * 100 + 200);
+        expect(state.players.right.combo).toBe(GAME_RULES.COMBO_STEP + 1);
+        expect(state.players.left.score).toBe(0);
+    });
+
+    it('breaks the combo on a miss and keeps the best one', () => {
+        const state = run(playing(), ...hits(3), {type: 'miss', owner: 'right'}, ...hits(1));
+        expect(state.players.right.combo).toBe(1);
+        expect(state.players.right.bestCombo).toBe(3);
+        expect(state.players.right.hits).toBe(4);
+    });
+
+    it('takes a decoy penalty without going below zero', () => {
+        const decoy: GameEvent = {type: 'hit', owner: 'right', role: 'decoy', points: 250};
+        const state = run(playing(), ...hits(2), decoy);
+        expect(state.players.right.score).toBe(0);
+        expect(state.players.right.combo).toBe(0);
+        expect(state.players.right.hits).toBe(2);
+    });
+
+    it('ignores scoring outside of play', () => {
+        const state = run(INITIAL_GAME_STATE, ...hits(3), {type: 'miss', owner: 'right'});
+        expect(state.players.right).toEqual(INITIAL_GAME_STATE.players.right);
+        const paused = run(playing(), {type: 'pause'}, ...hits(1));
+        expect(paused.players.right.score).toBe(0);
+    });
+
+    it('ends the round when the timer runs out and holds the results for the initials', () => {
+        const ended = run(playing(), ...hits(1), {type: 'shot', owner: 'right'}, {type: 'tick', dtMs: INITIAL_GAME_STATE.roundMs});
+        expect(ended.phase).toBe('results');
+        expect(ended.cleared).toBe(false);
+        expect(ended.resultsHeld).toBe(true);
+        expect(getTotals(ended)).toMatchObject({score: 100, shots: 1, hits: 1, accuracy: 1});
+
+        // A shot only restarts once the initials are done and the lock has passed
+        const held = run(ended, {type: 'tick', dtMs: GAME_RULES.RESULTS_LOCK_MS}, {type: 'shot', owner: 'right'});
+        expect(held.phase).toBe('results');
+        const restarted = run(held, {type: 'releaseResults'}, {type: 'shot', owner: 'right'});
+        expect(restarted.phase).toBe('countdown');
+        expect(restarted.players.right.score).toBe(0);
+    });
+
+    it('resumes through a fresh countdown', () => {
+        const resumed = run(playing(), {type: 'tick', dtMs: 500}, {type: 'pause'}, {type: 'tick', dtMs: 10000}, {type: 'resume'});
+        expect(resumed.phase).toBe('countdown');
+        expect(resumed.timeLeftMs).toBe(INITIAL_GAME_STATE.roundMs - 500);
+    });
+
+    it('shows the hand that is actually playing a solo round', () => {
+        expect(getDisplayedPlayers(playing())).toEqual(['right']);
+
+        const left = run(playing(), {type: 'shot', owner: 'left'}, ...hits(GAME_RULES.COMBO_STEP, 100, 'left'));
+        expect(getActivePlayers(left)).toEqual(['left']);
+        expect(getDisplayedPlayers(left)).toEqual(['left']);
+        expect(left.players.left.combo).toBe(GAME_RULES.COMBO_STEP);
+        expect(getMultiplier(left.players.left.combo)).toBe(2);
+    });
+});
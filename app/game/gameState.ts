@@ -0,0 +1,209 @@
+import {HANDEDNESS, Handedness} from '../tracking/types';
+import {TargetRole} from './levels';
+
+/**
+ * Round flow as a pure state machine:
+ * attract -> countdown -> playing <-> paused -> results -> countdown ...
+ * Time only advances through 'tick' events, so the reducer has no clock of its own.
+ */
+
+// Tuning parameters
+export const GAME_RULES = {
+    ROUND_MS: 60000,      // Default; each level sets its own time limit
+    COUNTDOWN_MS: 3000,
+    COMBO_STEP: 5,        // Multiplier goes up every this many consecutive hits
+    MAX_MULTIPLIER: 4,
+    RESULTS_LOCK_MS: 2000 // Results stay up at least this long before a shot starts the next round
+};
+
+export type GamePhase = 'attract' | 'countdown' | 'playing' | 'paused' | 'results';
+
+export interface PlayerStats {
+    score: number;
+    shots: number;
+    hits: number;
+    combo: number; // Consecutive hits, reset by a miss
+    bestCombo: number;
+}
+
+export interface WaveInfo {
+    index: number;
+    name: string;
+}
+
+export interface GameState {
+    phase: GamePhase;
+    phaseElapsedMs: number; // Time spent in the current phase
+    roundMs: number;        // Round length (from the level)
+    timeLeftMs: number;     // Round timer
+    round: number;          // Incremented at every start: targets reset to the first wave
+    wave: WaveInfo | null;  // Current wave of the level
+    cleared: boolean;       // The round ended because every wave was won
+    players: Record<Handedness, PlayerStats>;
+    resultsHeld: boolean;   // Initials entry may be open: shots don't restart from the results screen
+}
+
+export type GameEvent =
+    | { type: 'start' }                       // Begin the countdown (from attract or results)
+    | { type: 'tick'; dtMs: number }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'quit' }                        // Back to the attract screen
+    | { type: 'releaseResults' }              // Initials entered / skipped (or the score didn't qualify)
+    | { type: 'configure'; roundMs: number }  // Level loaded
+    | { type: 'wave'; index: number; name: string }
+    | { type: 'levelComplete' }               // Last wave won: the round ends early
+    | { type: 'shot'; owner: Handedness }
+    | { type: 'hit'; owner: Handedness; role: TargetRole; points: number } // points: 0 while armor holds
+    | { type: 'miss'; owner: Handedness };    // A bullet expired without hitting anything
+
+const INITIAL_PLAYER_STATS: PlayerStats = {score: 0, shots: 0, hits: 0, combo: 0, bestCombo: 0};
+
+const freshPlayers = (): Record<Handedness, PlayerStats> => ({
+    left: {...INITIAL_PLAYER_STATS},
+    right: {...INITIAL_PLAYER_STATS}
+});
+
+export const INITIAL_GAME_STATE: GameState = {
+    phase: 'attract',
+    phaseElapsedMs: 0,
+    roundMs: GAME_RULES.ROUND_MS,
+    timeLeftMs: GAME_RULES.ROUND_MS,
+    round: 0,
+    wave: null,
+    cleared: false,
+    players: freshPlayers(),
+    resultsHeld: false
+};
+
+export const getMultiplier = (combo: number) =>
+    Math.min(GAME_RULES.MAX_MULTIPLIER, 1 + Math.floor(combo / GAME_RULES.COMBO_STEP));
+
+const enterPhase = (state: GameState, phase: GamePhase): GameState => ({...state, phase, phaseElapsedMs: 0});
+
+// Any points may make the leaderboard: hold until the initials screen decides
+const endRound = (state: GameState, cleared: boolean): GameState => ({
+    ...enterPhase(state, 'results'),
+    cleared,
+    resultsHeld: HANDEDNESS.some(hand => state.players[hand].score > 0)
+});
+
+const updatePlayer = (state: GameState, owner: Handedness, update: (stats: PlayerStats) => PlayerStats): GameState => ({
+    ...state,
+    players: {...state.players, [owner]: update(state.players[owner])}
+});
+
+export const gameReducer = (state: GameState, event: GameEvent): GameState => {
+    switch (event.type) {
+        case 'start':
+            if (state.phase !== 'attract' && state.phase !== 'results') return state;
+            return {
+                ...enterPhase(state, 'countdown'),
+                timeLeftMs: state.roundMs,
+                round: state.round + 1,
+                wave: null,
+                cleared: false,
+                players: freshPlayers(),
+                resultsHeld: false
+            };
+
+        case 'tick': {
+            const elapsed = state.phaseElapsedMs + event.dtMs;
+            if (state.phase === 'countdown') {
+                return elapsed >= GAME_RULES.COUNTDOWN_MS ? enterPhase(state, 'playing') : {...state, phaseElapsedMs: elapsed};
+            }
+            if (state.phase === 'playing') {
+                const timeLeftMs = Math.max(0, state.timeLeftMs - event.dtMs);
+                if (timeLeftMs === 0) return endRound({...state, timeLeftMs}, false);
+                return {...state, phaseElapsedMs: elapsed, timeLeftMs};
+            }
+            if (state.phase === 'paused') return state; // Frozen
+            return {...state, phaseElapsedMs: elapsed};
+        }
+
+        case 'pause':
+            return state.phase === 'playing' || state.phase === 'countdown' ? enterPhase(state, 'paused') : state;
+
+        case 'resume':
+            // Resume through a fresh countdown, so nobody gets caught off guard
+            return state.phase === 'paused' ? enterPhase(state, 'countdown') : state;
+
+        case 'quit':
+            return {...INITIAL_GAME_STATE, roundMs: state.roundMs, timeLeftMs: state.roundMs, round: state.round};
+
+        case 'releaseResults':
+            return state.resultsHeld ? {...state, resultsHeld: false} : state;
+
+        case 'configure':
+            // Takes effect at the next start; the attract screen shows the new length right away
+            return {...state, roundMs: event.roundMs, timeLeftMs: state.phase === 'attract' ? event.roundMs : state.timeLeftMs};
+
+        case 'wave':
+            return {...state, wave: {index: event.index, name: event.name}};
+
+        case 'levelComplete':
+            return state.phase === 'playing' ? endRound(state, true) : state;
+
+        case 'shot':
+            // Shooting is also the "press start" of a hands-free game
+            if (state.phase === 'attract') return gameReducer(state, {type: 'start'});
+            if (state.phase === 'results') {
+                const canRestart = !state.resultsHeld && state.phaseElapsedMs >= GAME_RULES.RESULTS_LOCK_MS;
+                return canRestart ? gameReducer(state, {type: 'start'}) : state;
+            }
+            if (state.phase !== 'playing') return state;
+            return updatePlayer(state, event.owner, stats => ({...stats, shots: stats.shots + 1}));
+
+        case 'hit':
+            if (state.phase !== 'playing') return state;
+            if (event.role === 'decoy') {
+                // Shot the wrong thing: lose points and the combo (not counted as a hit)
+                return updatePlayer(state, event.owner, stats => ({
+                    ...stats,
+                    combo: 0,
+                    score: Math.max(0, stats.score - event.points)
+                }));
+            }
+            return updatePlayer(state, event.owner, stats => {
+                const combo = stats.combo + 1;
+                return {
+                    ...stats,
+                    hits: stats.hits + 1,
+                    combo,
+                    bestCombo: Math.max(stats.bestCombo, combo),
+                    score: stats.score + event.points * getMultiplier(stats.combo) // Multiplier earned so far
+                };
+            });
+
+        case 'miss':
+            if (state.phase !== 'playing') return state;
+            return updatePlayer(state, event.owner, stats => ({...stats, combo: 0}));
+    }
+};
+
+/**
+ * Both players combined (single player: just the right hand).
+ */
+export const getTotals = (state: GameState) => {
+    const totals = HANDEDNESS.reduce((sum, hand) => {
+        const stats = state.players[hand];
+        return {
+            score: sum.score + stats.score,
+            shots: sum.shots + stats.shots,
+            hits: sum.hits + stats.hits,
+            bestCombo: Math.max(sum.bestCombo, stats.bestCombo)
+        };
+    }, {score: 0, shots: 0, hits: 0, bestCombo: 0});
+
+    return {...totals, accuracy: totals.shots > 0 ? totals.hits / totals.shots : 0};
+};
+
+// Players who fired at least once this round
+export const getActivePlayers = (state: GameState): Handedness[] =>
+    HANDEDNESS.filter(hand => state.players[hand].shots > 0);
+
+// Players with a combo line in the HUD: whoever has fired, or the right hand before anyone has
+export const getDisplayedPlayers = (state: GameState): Handedness[] => {
+    const active = getActivePlayers(state);
+    return active.length > 0 ? active : ['right'];
+};
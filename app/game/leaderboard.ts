@@ -0,0 +1,103 @@
+import {GAME_RULES} from './gameState';
+import {LEVEL_LIMITS} from './levels';
+
+/**
+ * High score types, validation and client helpers for the `/api/scores` route.
+ * Validation lives here so the initials screen and the server agree on what's allowed.
+ */
+
+export const LEADERBOARD_LIMITS = {
+    INITIALS_LENGTH: 3,
+    MAX_ENTRIES_PER_MODE: 100, // Older / lower entries beyond this are dropped
+    DEFAULT_LIST_SIZE: 10,
+    MAX_LIST_SIZE: 100,
+    MAX_SHOTS: 10000,
+};
+
+export interface ScoreSubmission {
+    mode: string;      // Leaderboard the score belongs to, e.g. 'classic' or 'classic-duo'
+    initials: string;  // 1-3 letters / digits, uppercase
+    score: number;
+    hits: number;
+    shots: number;
+    bestCombo: number;
+}
+
+export interface ScoreEntry extends ScoreSubmission {
+    createdAt: string; // ISO time
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const MODE_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const INITIALS_PATTERN = new RegExp(`^[A-Z0-9]{1,${LEADERBOARD_LIMITS.INITIALS_LENGTH}}$`);
+
+const isCount = (value: unknown, max: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+// Two-player rounds get their own board (the entry is the team total)
+export const getLeaderboardMode = (baseMode: string, playerCount: number) =>
+    playerCount > 1 ? `${baseMode}-duo` : baseMode;
+
+export const isValidMode = (mode: unknown): mode is string => typeof mode === 'string' && MODE_PATTERN.test(mode);
+
+export const normalizeInitials = (initials: string) =>
+    initials.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, LEADERBOARD_LIMITS.INITIALS_LENGTH);
+
+/**
+ * Checks a submitted score: shape, ranges and plausibility (no more points than the hits could earn).
+ */
+export const validateSubmission = (body: unknown): ValidationResult<ScoreSubmission> => {
+    if (typeof body !== 'object' || body === null) return {ok: false, error: 'Body must be a JSON object'};
+    const {mode, initials, score, hits, shots, bestCombo} = body as Record<string, unknown>;
+
+    if (!isValidMode(mode)) return {ok: false, error: 'Invalid "mode"'};
+    if (typeof initials !== 'string' || !INITIALS_PATTERN.test(initials)) {
+        return {ok: false, error: `"initials" must be 1-${LEADERBOARD_LIMITS.INITIALS_LENGTH} letters or digits`};
+    }
+    if (!isCount(shots, LEADERBOARD_LIMITS.MAX_SHOTS)) return {ok: false, error: 'Invalid "shots"'};
+    if (!isCount(hits, shots)) return {ok: false, error: '"hits" must be a whole number no larger than "shots"'};
+    if (!isCount(bestCombo, hits)) return {ok: false, error: '"bestCombo" must be a whole number no larger than "hits"'};
+
+    const maxScore = hits * LEVEL_LIMITS.MAX_POINTS * GAME_RULES.MAX_MULTIPLIER;
+    if (!isCount(score, maxScore)) return {ok: false, error: '"score" is not possible with that many hits'};
+
+    return {ok: true, value: {mode, initials, score, hits, shots, bestCombo}};
+};
+
+// Highest score first; ties go to whoever got there first
+export const compareEntries = (a: ScoreEntry, b: ScoreEntry) =>
+    b.score - a.score || a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Would this score make it onto a top list of the given size?
+ */
+export const qualifiesForList = (score: number, list: ScoreEntry[], size = LEADERBOARD_LIMITS.DEFAULT_LIST_SIZE) =>
+    score > 0 && (list.length < size || score > list[size - 1].score);
+
+// --- Client helpers ---
+
+const readError = async (res: Response) => {
+    try {
+        const body = await res.json();
+        return typeof body.error === 'string' ? body.error : `Request failed (${res.status})`;
+    } catch {
+        return `Request failed (${res.status})`;
+    }
+};
+
+export const fetchScores = async (mode: string, limit = LEADERBOARD_LIMITS.DEFAULT_LIST_SIZE): Promise<ScoreEntry[]> => {
+    const res = await fetch(`/api/scores?mode=${encodeURIComponent(mode)}&limit=${limit}`, {cache: 'no-store'});
+    if (!res.ok) throw new Error(await readError(res));
+    return (await res.json()).scores;
+};
+
+export const submitScore = async (submission: ScoreSubmission): Promise<{ rank: number; scores: ScoreEntry[] }> => {
+    const res = await fetch('/api/scores', {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify(submission)
+    });
+    if (!res.ok) throw new Error(await readError(res));
+    return res.json();
+};
@@ -0,0 +1,305 @@
+import {createValidator} from '../utils/validate';
+
+/**
+ * Level file format (JSON, `public/levels/<id>.json`). A level is a list of waves; each wave spawns groups
+ * of targets inside a box, moves them along a path, respawns them by rule and ends on a win condition.
+ * World units: the screen is 22.5 units tall, Z=0 is the screen plane and the room extends to Z=-60.
+ *
+ * {
+ *   "format": "parallax-level", "version": 1, "id": "classic", "name": "Classic", "timeLimitMs": 60000,
+ *   "targetTypes": {"standard": {"scale": 3, "points": 100, "colors": ["#FF6B6B"]},
+ *                   "tank": {"scale": 3.5, "points": 300, "colors": ["#8D99AE"], "hp": 3, "bob": {"amplitude": 1, "periodMs": 2000}},
+ *                   "decoy": {"role": "decoy", "scale": 2.5, "points": 150, "colors": ["#E63946"]}},
+ *   "waves": [{
+ *     "name": "Warm-up", "breakMs": 1500, "win": {"kind": "hits", "count": 10},
+ *     "spawns": [{"type": "standard", "count": 10, "volume": {"min": [-17, -9, -40], "max": [17, 9, -5]},
+ *                 "path": {"kind": "static"}, "respawn": {"delayMs": 2000}, "minSpacing": 6}]
+ *   }]
+ * }
+ */
+
+export const LEVEL_FORMAT = 'parallax-level';
+export const LEVEL_VERSION = 1;
+
+export const LEVEL_LIMITS = {
+    MAX_WAVES: 50,
+    MAX_GROUP_SIZE: 50,
+    MAX_POINTS: 500, // Per target hit, before the combo multiplier (also bounds leaderboard plausibility)
+    MAX_HP: 10,
+};
+
+export const BONUS_LIFETIME_MS = 4000; // Default for bonus targets without a lifetimeMs
+
+export type Vec3 = [number, number, number];
+
+export interface SpawnVolume {
+    min: Vec3;
+    max: Vec3;
+}
+
+export type MovementPath =
+    | { kind: 'static' }
+    | { kind: 'linear'; speed: number }                    // Units/s in a random direction, bouncing off the volume
+    | { kind: 'orbit'; radius: number; periodMs: number }; // Circles its spawn point, facing the viewer
+
+// standard: scores when destroyed; decoy: hitting it costs `points` and breaks the combo; bonus: short-lived
+export type TargetRole = 'standard' | 'decoy' | 'bonus';
+
+export interface TargetTypeDef {
+    scale: number;    // Radius (world units)
+    points: number;   // Base points when destroyed (decoys: the penalty)
+    colors: string[]; // One is picked per spawn
+    role: TargetRole;
+    hp: number;                                          // Hits to destroy (armored targets: > 1)
+    lifetimeMs: number | null;                           // Disappears on its own after this long
+    bob: { amplitude: number; periodMs: number } | null; // Vertical bobbing on top of the path
+    evade: { radius: number; speed: number } | null;     // Dodges aim rays passing closer than radius (units/s)
+}
+
+export interface RespawnRule {
+    delayMs: number;
+    limit?: number; // Respawns per group (omit for unlimited)
+}
+
+export interface SpawnGroup {
+    type: string; // Key into targetTypes
+    count: number;
+    volume: SpawnVolume;
+    path: MovementPath;
+    respawn: RespawnRule | null; // null: destroyed targets stay gone
+    minSpacing: number;          // Preferred distance between target centers
+}
+
+export type WinCondition =
+    | { kind: 'hits'; count: number } // Destroy this many targets in the wave (decoys don't count)
+    | { kind: 'clear' }               // Destroy everything but the decoys (no respawns left)
+    | { kind: 'time'; ms: number };   // Survive
+
+export interface WaveDef {
+    name: string;
+    spawns: SpawnGroup[];
+    win: WinCondition | null; // null: the wave lasts until the round ends
+    breakMs: number;          // Pause before the next wave
+}
+
+export interface LevelDef {
+    id: string;
+    name: string;
+    timeLimitMs: number;
+    targetTypes: Record<string, TargetTypeDef>;
+    waves: WaveDef[];
+}
+
+/**
+ * Built-in level: the original endless field of 15 targets. Used when a level file can't be loaded.
+ */
+export const ENDLESS_LEVEL: LevelDef = {
+    id: 'endless',
+    name: 'Endless',
+    timeLimitMs: 60000,
+    targetTypes: {
+        standard: {
+            scale: 3,
+            points: 100,
+            colors: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#1A535C', '#F7FFF7'],
+            role: 'standard',
+            hp: 1,
+            lifetimeMs: null,
+            bob: null,
+            evade: null
+        }
+    },
+    waves: [{
+        name: 'Endless',
+        spawns: [{
+            type: 'standard',
+            count: 15,
+            volume: {min: [-17.5, -9, -40], max: [17.5, 9, -5]},
+            path: {kind: 'static'},
+            respawn: {delayMs: 2000},
+            minSpacing: 6
+        }],
+        win: null,
+        breakMs: 0
+    }]
+};
+
+// --- Validation ---
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+const {fail, object, array, number, integer, string, vec3} = createValidator('Level');
+
+const parsePath = (value: unknown, path: string): MovementPath => {
+    if (value === undefined) return {kind: 'static'};
+    const raw = object(value, path);
+    switch (raw.kind) {
+        case 'static':
+            return {kind: 'static'};
+        case 'linear':
+            return {kind: 'linear', speed: number(raw.speed, `${path}.speed`, 0, 200)};
+        case 'orbit':
+            return {
+                kind: 'orbit',
+                radius: number(raw.radius, `${path}.radius`, 0, 100),
+                periodMs: number(raw.periodMs, `${path}.periodMs`, 100)
+            };
+        default:
+            return fail(`${path}.kind`, 'must be "static", "linear" or "orbit"');
+    }
+};
+
+const parseTargetType = (value: unknown, path: string): TargetTypeDef => {
+    const raw = object(value, path);
+
+    const role = raw.role === undefined ? 'standard' : raw.role;
+    if (role !== 'standard' && role !== 'decoy' && role !== 'bonus') {
+        return fail(`${path}.role`, 'must be "standard", "decoy" or "bonus"');
+    }
+
+    let lifetimeMs: number | null = role === 'bonus' ? BONUS_LIFETIME_MS : null;
+    if (raw.lifetimeMs !== undefined) lifetimeMs = number(raw.lifetimeMs, `${path}.lifetimeMs`, 100);
+
+    let bob: TargetTypeDef['bob'] = null;
+    if (raw.bob !== undefined) {
+        const bobRaw = object(raw.bob, `${path}.bob`);
+        bob = {
+            amplitude: number(bobRaw.amplitude, `${path}.bob.amplitude`, 0, 50),
+            periodMs: number(bobRaw.periodMs, `${path}.bob.periodMs`, 100)
+        };
+    }
+
+    let evade: TargetTypeDef['evade'] = null;
+    if (raw.evade !== undefined) {
+        const evadeRaw = object(raw.evade, `${path}.evade`);
+        evade = {
+            radius: number(evadeRaw.radius, `${path}.evade.radius`, 0, 50),
+            speed: number(evadeRaw.speed, `${path}.evade.speed`, 0, 200)
+        };
+    }
+
+    return {
+        scale: number(raw.scale, `${path}.scale`, 0.1, 20),
+        points: integer(raw.points, `${path}.points`, 0, LEVEL_LIMITS.MAX_POINTS),
+        colors: array(raw.colors, `${path}.colors`, 32).map((c, i) => string(c, `${path}.colors[${i}]`)),
+        role,
+        hp: raw.hp === undefined ? 1 : integer(raw.hp, `${path}.hp`, 1, LEVEL_LIMITS.MAX_HP),
+        lifetimeMs,
+        bob,
+        evade
+    };
+};
+
+const parseWin = (value: unknown, path: string): WinCondition | null => {
+    if (value === undefined || value === null) return null;
+    const raw = object(value, path);
+    switch (raw.kind) {
+        case 'hits':
+            return {kind: 'hits', count: integer(raw.count, `${path}.count`, 1)};
+        case 'clear':
+            return {kind: 'clear'};
+        case 'time':
+            return {kind: 'time', ms: number(raw.ms, `${path}.ms`, 1)};
+        default:
+            return fail(`${path}.kind`, 'must be "hits", "clear" or "time"');
+    }
+};
+
+const parseSpawnGroup = (value: unknown, path: string, targetTypes: Record<string, TargetTypeDef>): SpawnGroup => {
+    const raw = object(value, path);
+    const type = string(raw.type, `${path}.type`);
+    if (!targetTypes[type]) fail(`${path}.type`, `"${type}" is not defined in targetTypes`);
+
+    const volumeRaw = object(raw.volume, `${path}.volume`);
+    const volume = {min: vec3(volumeRaw.min, `${path}.volume.min`), max: vec3(volumeRaw.max, `${path}.volume.max`)};
+    volume.min.forEach((min, i) => {
+        if (min > volume.max[i]) fail(`${path}.volume`, 'min must not exceed max');
+    });
+
+    let respawn: RespawnRule | null = null;
+    if (raw.respawn !== undefined && raw.respawn !== null && raw.respawn !== false) {
+        const respawnRaw = object(raw.respawn, `${path}.respawn`);
+        respawn = {
+            delayMs: number(respawnRaw.delayMs, `${path}.respawn.delayMs`, 0),
+            limit: respawnRaw.limit === undefined ? undefined : integer(respawnRaw.limit, `${path}.respawn.limit`, 0)
+        };
+    }
+
+    return {
+        type,
+        count: integer(raw.count, `${path}.count`, 1, LEVEL_LIMITS.MAX_GROUP_SIZE),
+        volume,
+        path: parsePath(raw.path, `${path}.path`),
+        respawn,
+        minSpacing: raw.minSpacing === undefined ? 0 : number(raw.minSpacing, `${path}.minSpacing`, 0)
+    };
+};
+
+/**
+ * Validates a parsed level file. Throws an Error naming the offending field (e.g. "waves[1].spawns[0].count").
+ */
+export const parseLevel = (json: unknown): LevelDef => {
+    const raw = object(json, '');
+    if (raw.format !== LEVEL_FORMAT) fail('format', `must be "${LEVEL_FORMAT}"`);
+    const version = integer(raw.version, 'version', 1);
+    if (version > LEVEL_VERSION) fail('version', `${version} is newer than supported (${LEVEL_VERSION})`);
+
+    const id = string(raw.id, 'id');
+    if (!ID_PATTERN.test(id)) fail('id', 'must be lowercase letters, digits and dashes');
+
+    const targetTypes: Record<string, TargetTypeDef> = {};
+    Object.entries(object(raw.targetTypes, 'targetTypes')).forEach(([name, value]) => {
+        targetTypes[name] = parseTargetType(value, `targetTypes.${name}`);
+    });
+
+    const waves = array(raw.waves, 'waves', LEVEL_LIMITS.MAX_WAVES).map((value, w) => {
+        const path = `waves[${w}]`;
+        const wave = object(value, path);
+        const spawns = array(wave.spawns, `${path}.spawns`, 20)
+            .map((group, g) => parseSpawnGroup(group, `${path}.spawns[${g}]`, targetTypes));
+        const win = parseWin(wave.win, `${path}.win`);
+
+        // A wave with endless respawns can never be cleared (decoys are left standing, so they don't count)
+        const endless = spawns.some(group =>
+            targetTypes[group.type].role !== 'decoy' && group.respawn && group.respawn.limit === undefined
+        );
+        if (win?.kind === 'clear' && endless) {
+            fail(`${path}.win`, '"clear" needs a respawn limit on every non-decoy spawn group');
+        }
+
+        return {
+            name: wave.name === undefined ? `Wave ${w + 1}` : string(wave.name, `${path}.name`),
+            spawns,
+            win,
+            breakMs: wave.breakMs === undefined ? 1500 : number(wave.breakMs, `${path}.breakMs`, 0)
+        };
+    });
+
+    return {
+        id,
+        name: raw.name === undefined ? id : string(raw.name, 'name'),
+        timeLimitMs: raw.timeLimitMs === undefined ? ENDLESS_LEVEL.timeLimitMs : number(raw.timeLimitMs, 'timeLimitMs', 1000),
+        targetTypes,
+        waves
+    };
+};
+
+export const isValidLevelId = (id: string) => ID_PATTERN.test(id);
+
+/**
+ * Fetches and validates `/levels/<id>.json`.
+ */
+export const loadLevel = async (id: string, basePath = '/levels'): Promise<LevelDef> => {
+    if (!isValidLevelId(id)) throw new Error(`Invalid level id "${id}"`);
+
+    const res = await fetch(`${basePath}/${id}.json`, {cache: 'no-store'});
+    if (!res.ok) throw new Error(`Level "${id}" not found (${res.status})`);
+
+    let json: unknown;
+    try {
+        json = await res.json();
+    } catch {
+        throw new Error(`Level "${id}" is not valid JSON`);
+    }
+    return parseLevel(json);
+};
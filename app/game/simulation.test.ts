@@ -0,0 +1,74 @@
+import {describe, expect, it} from 'vitest';
+import * as THREE from 'three';
+import {ENDLESS_LEVEL, LevelDef} from './levels';
+import {AimInput, createFixedTimestep, createSimulation, SIMULATION_RULES, SimulationEvent} from './simulation';
+import {GAME_RULES} from './gameState';
+
+// One static target straight ahead of the eye
+const LEVEL: LevelDef = {
+    ...ENDLESS_LEVEL,
+    waves: [{
+        ...ENDLESS_LEVEL.waves[0],
+        spawns: [{...ENDLESS_LEVEL.waves[0].spawns[0], count: 1, volume: {min: [0, 0, -20], max: [0, 0, -20]}}]
+    }]
+};
+
+const EYE = new THREE.Vector3(0, 0, 30);
+
+const aimAt = (point: THREE.Vector3, firing: boolean): AimInput => ({
+    owner: 'right',
+    origin: EYE,
+    direction: point.clone().sub(EYE).normalize(),
+    firing
+});
+
+const startedSimulation = (seed = 7) => {
+    const simulation = createSimulation({seed, seedFixed: true});
+    simulation.setLevel(LEVEL);
+    simulation.send({type: 'start'});
+    const advance = createFixedTimestep();
+    for (let ms = 0; ms <= GAME_RULES.COUNTDOWN_MS; ms += 100) advance(100, dt => simulation.step(dt, {aims: []}));
+    return simulation;
+};
+
+describe('createSimulation', () => {
+    it('scores a shot at a target once the bullet reaches it', () => {
+        const simulation = startedSimulation();
+        expect(simulation.getGame().phase).toBe('playing');
+        const [target] = simulation.getTargets();
+
+        const events: SimulationEvent[] = [];
+        events.push(...simulation.step(SIMULATION_RULES.STEP_MS, {aims: [aimAt(target.position, true)]}));
+        for (let i = 0; i < 60; i++) events.push(...simulation.step(SIMULATION_RULES.STEP_MS, {aims: []}));
+
+        expect(events).toContainEqual({type: 'shot', owner: 'right'});
+        expect(events).toContainEqual(expect.objectContaining({type: 'hit', owner: 'right', targetId: target.id, destroyed: true}));
+        expect(simulation.getGame().players.right).toMatchObject({shots: 1, hits: 1, score: 100});
+    });
+
+    it('limits the fire rate while the trigger is held', () => {
+        const simulation = startedSimulation();
+        const aim = aimAt(new THREE.Vector3(30, 0, -20), true); // Off to the side: misses
+        const steps = Math.round(SIMULATION_RULES.FIRE_INTERVAL_MS * 3 / SIMULATION_RULES.STEP_MS);
+        for (let i = 0; i < steps; i++) simulation.step(SIMULATION_RULES.STEP_MS, {aims: [aim]});
+        expect(simulation.getGame().players.right.shots).toBe(3);
+    });
+
+    it('replays the same round for the same seed', () => {
+        const positions = () => startedSimulation(99).getTargets().map(t => t.position.toArray());
+        expect(positions()).toEqual(positions());
+    });
+});
+
+describe('createFixedTimestep', () => {
+    it('carries the remainder over and caps the steps per frame', () => {
+        const advance = createFixedTimestep(10, 3);
+        const steps: number[] = [];
+        advance(25, dt => steps.push(dt));
+        expect(steps).toHaveLength(2);
+        advance(5, dt => steps.push(dt));
+        expect(steps).toHaveLength(3);
+        advance(1000, dt => steps.push(dt));
+        expect(steps).toHaveLength(6);
+    });
+});
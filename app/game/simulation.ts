@@ -0,0 +1,380 @@
+import * as THREE from 'three';
+import {Handedness} from '../tracking/types';
+import {GameEvent, gameReducer, GameState, INITIAL_GAME_STATE} from './gameState';
+import {LevelDef, TargetRole} from './levels';
+import {createWaveDirector, DirectorEvent, Target, WaveDirector} from './waveDirector';
+import {createCollisionGrid, findImpacts} from './collision';
+import {createObjectPool, OverflowPolicy} from '../utils/objectPool';
+import {createRandom, deriveSeed, RandomSource} from '../utils/random';
+
+/**
+ * The whole game without React or WebGL: targets (waves, movement, spawning), bullets, collisions,
+ * explosion debris and the round / score state machine. Advanced in fixed steps by `step(dtMs, inputs)`;
+ * the R3F components only draw its state, so it can also run headless (e.g. thousands of frames in Node).
+ */
+
+// Tuning parameters
+export const SIMULATION_RULES = {
+    STEP_MS: 1000 / 120,     // Fixed timestep
+    MAX_STEPS_PER_FRAME: 12, // After a long stall, drop time rather than spiral
+    TICK_MS: 100,            // Round clock resolution: the HUD only re-renders this often
+    FIRE_INTERVAL_MS: 100,   // Per hand, while the fire gesture is held
+    BULLET_SPEED: 200,       // Units/s
+    BULLET_LIFE_MS: 3000,    // Lifecycle should be enough to cross the room
+    BULLET_SPAWN_DISTANCE: 10, // In front of the eye, so it's visible but travelling inward
+    BULLET_MIN_Z: -200,
+    FRAGMENTS_PER_HIT: 12,
+};
+
+/**
+ * Preallocated bullets / fragments. On overflow, 'recycleOldest' takes over the oldest one (a recycled
+ * bullet counts as a miss), 'dropNewest' doesn't fire / spawn the new one.
+ */
+export interface EffectPoolConfig {
+    bullets: number; // Shared by both hands
+    fragments: number;
+    bulletOverflow: OverflowPolicy;
+    fragmentOverflow: OverflowPolicy;
+}
+
+export const DEFAULT_EFFECT_POOLS: EffectPoolConfig = {
+    bullets: 100,
+    fragments: 240, // 20 explosions
+    bulletOverflow: 'recycleOldest',
+    fragmentOverflow: 'recycleOldest'
+};
+
+// One aiming hand: the ray from the eye through its crosshair
+export interface AimInput {
+    owner: Handedness;
+    origin: THREE.Vector3;
+    direction: THREE.Vector3; // Normalized
+    firing: boolean;
+}
+
+export interface SimulationInputs {
+    aims: AimInput[]; // Hands in the gun pose
+}
+
+export type BulletEvent =
+    | { type: 'shot'; owner: Handedness }
+    | {
+          type: 'hit';
+          owner: Handedness;
+          targetId: number;
+          targetType: string; // Level target type that was hit
+          role: TargetRole;
+          destroyed: boolean; // false: armor absorbed it
+          points: number;     // Scored (decoys: lost) by this hit
+      }
+    | { type: 'miss'; owner: Handedness }; // Expired without hitting anything
+
+export type SimulationEvent = BulletEvent | DirectorEvent;
+
+// Pooled: every field is overwritten when a slot is reused
+export interface Bullet {
+    owner: Handedness;
+    from: THREE.Vector3;     // Position at the start of this step (the swept segment is from -> to)
+    to: THREE.Vector3;       // Position at the end of this step (drawn here)
+    velocity: THREE.Vector3; // Unit direction
+    lifeMs: number;
+}
+
+export interface Fragment {
+    position: THREE.Vector3;
+    velocity: THREE.Vector3;
+    rotation: THREE.Quaternion;
+    lifeMs: number;
+    color: THREE.Color;
+    size: number;
+}
+
+const FRAGMENT_COLORS = [new THREE.Color('#ffaa00'), new THREE.Color('#ff4400')];
+
+/**
+ * Seed of a round: a fixed seed (from the URL) replays every round, otherwise each round gets its own.
+ */
+export const getRoundSeed = (seed: number, seedFixed: boolean, round: number) =>
+    seedFixed ? seed : deriveSeed(seed, round);
+
+interface SimulationOptions {
+    seed: number;
+    seedFixed: boolean;
+    pools?: EffectPoolConfig;
+}
+
+export const createSimulation = ({seed, seedFixed, pools = DEFAULT_EFFECT_POOLS}: SimulationOptions) => {
+    let game: GameState = INITIAL_GAME_STATE;
+    let level: LevelDef | null = null;
+    let director: WaveDirector | null = null;
+    let random: RandomSource = createRandom(0);
+    let round = -1;             // Round the director / random were seeded for
+    let targetsVersion = 0;     // Bumped when targets appear or disappear (renderers rebuild their meshes)
+    let clockMs = 0;
+    let tickMs = 0;             // Round clock time not yet sent as a 'tick'
+    const lastFire: Record<Handedness, number> = {left: -Infinity, right: -Infinity};
+    let commands: GameEvent[] = [];
+    let events: SimulationEvent[] = [];
+    const listeners = new Set<() => void>();
+
+    const recycled: Handedness[] = []; // Owners of bullets taken over this step (reported as misses)
+    const bullets = createObjectPool<Bullet>({
+        size: pools.bullets,
+        overflow: pools.bulletOverflow,
+        create: () => ({
+            owner: 'right',
+            from: new THREE.Vector3(),
+            to: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
+            lifeMs: 0
+        }),
+        onRecycle: b => recycled.push(b.owner)
+    });
+    const fragments = createObjectPool<Fragment>({
+        size: pools.fragments,
+        overflow: pools.fragmentOverflow,
+        create: () => ({
+            position: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
+            rotation: new THREE.Quaternion(),
+            lifeMs: 0,
+            color: new THREE.Color(),
+            size: 0
+        })
+    });
+
+    // Per-step scratch (reused, so stepping doesn't allocate per bullet, target or aim)
+    const collisionGrid = createCollisionGrid<Target>();
+    const live: Bullet[] = [];
+    const stopped = new Set<number>();
+    const impactPos = new THREE.Vector3();
+    const activeTargets: Target[] = [];
+    const cachedRays: THREE.Ray[] = []; // One per aiming hand, kept when fewer hands aim
+    const aimRays: THREE.Ray[] = [];
+    const euler = new THREE.Euler();
+
+    const dispatch = (event: GameEvent) => {
+        game = gameReducer(game, event);
+    };
+
+    // New round (or level): targets and debris start over from the round's seed
+    const reseed = () => {
+        round = game.round;
+        const roundSeed = getRoundSeed(seed, seedFixed, round);
+        random = createRandom(deriveSeed(roundSeed, 'effects'));
+        director = level ? createWaveDirector(level, deriveSeed(roundSeed, 'targets')) : null;
+        targetsVersion++;
+    };
+
+    const handleDirectorEvents = (directorEvents: DirectorEvent[]) => {
+        directorEvents.forEach(event => {
+            events.push(event);
+            switch (event.type) {
+                case 'spawned':
+                case 'removed':
+                    targetsVersion++;
+                    break;
+                case 'waveStarted':
+                    dispatch({type: 'wave', index: event.index, name: event.name});
+                    break;
+                case 'levelComplete':
+                    dispatch({type: 'levelComplete'});
+                    break;
+            }
+        });
+    };
+
+    const report = (event: BulletEvent) => {
+        events.push(event);
+        dispatch(event); // Shots / hits / misses drive the score
+    };
+
+    const fire = (aim: AimInput) => {
+        const bullet = bullets.acquire();
+        if (!bullet) return; // Pool full ('dropNewest'): the shot doesn't happen
+
+        bullet.owner = aim.owner;
+        bullet.velocity.copy(aim.direction);
+        bullet.to.copy(aim.origin).addScaledVector(aim.direction, SIMULATION_RULES.BULLET_SPAWN_DISTANCE);
+        bullet.from.copy(bullet.to);
+        bullet.lifeMs = SIMULATION_RULES.BULLET_LIFE_MS;
+        report({type: 'shot', owner: aim.owner});
+    };
+
+    const explode = (position: THREE.Vector3, incidentVelocity: THREE.Vector3) => {
+        for (let i = 0; i < SIMULATION_RULES.FRAGMENTS_PER_HIT; i++) {
+            const f = fragments.acquire();
+            if (!f) return; // Pool full ('dropNewest')
+
+            // Random direction, mixed with the bullet's forward momentum
+            f.velocity.set((random() - 0.5) * 2, (random() - 0.5) * 2, (random() - 0.5) * 2).normalize()
+                .multiplyScalar(30 + random() * 20) // Explosive force
+                .addScaledVector(incidentVelocity, 20 + random() * 20); // Base speed
+
+            f.position.copy(position);
+            f.lifeMs = 500 + random() * 500;
+            f.color.copy(FRAGMENT_COLORS[random() > 0.5 ? 0 : 1]);
+            f.size = 0.2 + random() * 0.3;
+            f.rotation.setFromEuler(euler.set(random() * Math.PI, random() * Math.PI, 0));
+        }
+    };
+
+    const moveBullets = (dtMs: number) => {
+        live.length = 0;
+        stopped.clear();
+        bullets.forEach(b => {
+            b.from.copy(b.to);
+            b.to.addScaledVector(b.velocity, (dtMs / 1000) * SIMULATION_RULES.BULLET_SPEED);
+            b.lifeMs -= dtMs;
+            live.push(b);
+        });
+
+        // Swept spheres against a grid of the live targets, earliest impact first
+        activeTargets.length = 0;
+        director?.targets.forEach(t => {
+            if (t.active) activeTargets.push(t);
+        });
+        findImpacts(live, activeTargets, collisionGrid).forEach(({sweep, target, t}) => {
+            if (stopped.has(sweep) || !target.active) return; // Bullet already spent / target already gone
+            const result = director?.hit(target.id);
+            if (!result) return;
+
+            const b = live[sweep];
+            stopped.add(sweep); // Destroy bullet on impact
+            report({
+                type: 'hit',
+                owner: b.owner,
+                targetId: target.id,
+                targetType: target.type,
+                role: target.role,
+                destroyed: result.destroyed,
+                points: result.destroyed ? target.points : 0
+            });
+            explode(impactPos.copy(b.from).lerp(b.to, t), b.velocity);
+        });
+
+        live.forEach((b, i) => {
+            if (stopped.has(i)) {
+                bullets.release(b);
+            } else if (b.lifeMs <= 0 || b.to.z < SIMULATION_RULES.BULLET_MIN_Z) {
+                report({type: 'miss', owner: b.owner});
+                bullets.release(b);
+            }
+        });
+    };
+
+    /**
+     * Advances everything by `dtMs` (call with SIMULATION_RULES.STEP_MS; see createFixedTimestep).
+     * Returns what happened during the step.
+     */
+    const step = (dtMs: number, {aims}: SimulationInputs): SimulationEvent[] => {
+        const before = game;
+        clockMs += dtMs;
+
+        // 1. Commands (start, pause, ...) queued since the last step
+        const queued = commands;
+        commands = [];
+        queued.forEach(dispatch);
+        if (game.round !== round) reseed();
+
+        // 2. Round clock
+        if (game.phase !== 'attract' && game.phase !== 'paused') {
+            tickMs += dtMs;
+            if (tickMs >= SIMULATION_RULES.TICK_MS) {
+                dispatch({type: 'tick', dtMs: tickMs});
+                tickMs = 0;
+            }
+        } else {
+            tickMs = 0;
+        }
+
+        // Paused: the world freezes
+        if (game.phase !== 'paused') {
+            // 3. Targets (evasive ones dodge the aim rays)
+            if (director) {
+                aimRays.length = aims.length;
+                aims.forEach((aim, i) => {
+                    aimRays[i] = (cachedRays[i] ??= new THREE.Ray()).set(aim.origin, aim.direction);
+                });
+                handleDirectorEvents(director.update(dtMs, game.phase === 'playing', aimRays));
+            }
+
+            // 4. Firing (a shot on the title / results screen starts the round)
+            aims.forEach(aim => {
+                if (!aim.firing || clockMs - lastFire[aim.owner] < SIMULATION_RULES.FIRE_INTERVAL_MS) return;
+                fire(aim);
+                lastFire[aim.owner] = clockMs;
+            });
+            recycled.forEach(owner => report({type: 'miss', owner}));
+            recycled.length = 0;
+
+            // 5. Bullets + collisions
+            moveBullets(dtMs);
+
+            // 6. Debris
+            fragments.forEach(f => {
+                f.position.addScaledVector(f.velocity, dtMs / 1000);
+                f.lifeMs -= dtMs;
+                if (f.lifeMs <= 0) fragments.release(f);
+            });
+        }
+
+        if (game.round !== round) reseed(); // A shot started the next round
+        if (game !== before) listeners.forEach(listener => listener());
+
+        const out = events;
+        events = [];
+        return out;
+    };
+
+    // Applied at the start of the next step, so everything happens on the simulation's clock
+    const send = (event: GameEvent) => {
+        commands.push(event);
+    };
+
+    const setLevel = (next: LevelDef) => {
+        level = next;
+        commands.push({type: 'configure', roundMs: next.timeLimitMs});
+        reseed();
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return {
+        step,
+        send,
+        setLevel,
+        subscribe,
+        getGame: () => game,
+        getLevel: () => level,
+        getTargets: (): Target[] => director?.targets ?? [],
+        getTargetsVersion: () => targetsVersion,
+        getRoundSeed: () => getRoundSeed(seed, seedFixed, game.round),
+        bullets,
+        fragments
+    };
+};
+
+export type Simulation = ReturnType<typeof createSimulation>;
+
+/**
+ * Turns variable frame times into whole fixed steps (the remainder carries over to the next frame).
+ */
+export const createFixedTimestep = (
+    stepMs = SIMULATION_RULES.STEP_MS,
+    maxSteps = SIMULATION_RULES.MAX_STEPS_PER_FRAME
+) => {
+    let accumulator = 0;
+    return (frameMs: number, step: (dtMs: number) => void) => {
+        accumulator = Math.min(accumulator + frameMs, stepMs * maxSteps);
+        while (accumulator >= stepMs) {
+            step(stepMs);
+            accumulator -= stepMs;
+        }
+    };
+};
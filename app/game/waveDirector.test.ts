@@ -0,0 +1,128 @@
+import {describe, expect, it} from 'vitest';
+import * as THREE from 'three';
+import {LevelDef, TargetTypeDef} from './levels';
+import {createWaveDirector, DirectorEvent, WaveDirector} from './waveDirector';
+
+const STANDARD: TargetTypeDef = {
+    scale: 2,
+    points: 100,
+    colors: ['#ffffff'],
+    role: 'standard',
+    hp: 1,
+    lifetimeMs: null,
+    bob: null,
+    evade: null
+};
+
+// Two static targets to destroy, a break, then a wave to survive
+const LEVEL: LevelDef = {
+    id: 'test',
+    name: 'Test',
+    timeLimitMs: 60000,
+    targetTypes: {standard: STANDARD, armored: {...STANDARD, hp: 2}},
+    waves: [
+        {
+            name: 'First',
+            spawns: [{
+                type: 'standard',
+                count: 2,
+                volume: {min: [-10, -5, -30], max: [10, 5, -10]},
+                path: {kind: 'static'},
+                respawn: null,
+                minSpacing: 4
+            }],
+            win: {kind: 'hits', count: 2},
+            breakMs: 500
+        },
+        {
+            name: 'Second',
+            spawns: [{
+                type: 'armored',
+                count: 1,
+                volume: {min: [0, 0, -20], max: [0, 0, -20]},
+                path: {kind: 'static'},
+                respawn: {delayMs: 200, limit: 1},
+                minSpacing: 0
+            }],
+            win: {kind: 'time', ms: 1000},
+            breakMs: 0
+        }
+    ]
+};
+
+const hitAll = (director: WaveDirector) =>
+    director.targets.map(t => t.id).forEach(id => director.hit(id));
+
+const types = (events: DirectorEvent[]) => events.map(e => e.type);
+
+describe('createWaveDirector', () => {
+    it('spawns the same targets for the same seed', () => {
+        const positions = (seed: number) => createWaveDirector(LEVEL, seed).targets.map(t => t.position.toArray());
+        expect(positions(42)).toEqual(positions(42));
+        expect(positions(42)).not.toEqual(positions(43));
+    });
+
+    it('advances to the next wave after the win condition and the break', () => {
+        const director = createWaveDirector(LEVEL, 1);
+        expect(types(director.update(10, true))).toEqual(['spawned', 'spawned', 'waveStarted']);
+
+        hitAll(director);
+        expect(types(director.update(10, true))).toEqual(['removed', 'removed']);
+        expect(director.getStatus()).toMatchObject({index: 0, breakLeftMs: 500});
+
+        expect(director.update(490, true)).toEqual([]);
+        const events = director.update(10, true);
+        expect(events).toContainEqual({type: 'waveStarted', index: 1, name: 'Second'});
+        expect(director.targets).toHaveLength(1);
+    });
+
+    it("doesn't count hits while no round is running", () => {
+        const director = createWaveDirector(LEVEL, 1);
+        director.update(10, false);
+        hitAll(director);
+        director.update(10, false);
+        expect(director.getStatus()).toMatchObject({index: 0, breakLeftMs: 0});
+    });
+
+    it('respawns by rule and completes the level when the last wave is won', () => {
+        const director = createWaveDirector(LEVEL, 1);
+        director.update(10, true);
+        hitAll(director);
+        director.update(10, true);
+        director.update(500, true);
+
+        // Armored: the first hit only flashes it
+        const [armored] = director.targets;
+        expect(director.hit(armored.id)).toMatchObject({destroyed: false});
+        expect(director.hit(armored.id)).toMatchObject({destroyed: true});
+        expect(director.hit(armored.id)).toBeNull();
+
+        director.update(200, true);
+        expect(director.targets).toHaveLength(1); // One respawn allowed
+        hitAll(director);
+        hitAll(director);
+        director.update(200, true);
+        expect(director.targets).toHaveLength(0);
+
+        expect(types(director.update(600, true))).toContain('levelComplete');
+        expect(director.getStatus().complete).toBe(true);
+    });
+});
+
+describe('evasive targets', () => {
+    it('slide away from an aim ray passing through them', () => {
+        const level: LevelDef = {
+            ...LEVEL,
+            targetTypes: {standard: {...STANDARD, evade: {radius: 5, speed: 10}}},
+            waves: [{...LEVEL.waves[0], spawns: [{...LEVEL.waves[0].spawns[0], count: 1, volume: {min: [-10, 0, -20], max: [10, 0, -20]}}]}]
+        };
+        const director = createWaveDirector(level, 1);
+        const [target] = director.targets;
+        const startX = target.position.x;
+        const ray = new THREE.Ray(new THREE.Vector3(startX + 0.5, 0, 30), new THREE.Vector3(0, 0, -1));
+
+        for (let i = 0; i < 10; i++) director.update(50, true, [ray]);
+        expect(target.position.x).toBeLessThan(startX - 1); // Away from the ray's side
+        expect(target.position.z).toBe(-20);
+    });
+});
@@ -0,0 +1,339 @@
+import * as THREE from 'three';
+import {LevelDef, SpawnGroup, TargetRole} from './levels';
+import {createRandom} from '../utils/random';
+
+/**
+ * Runs a level: spawns each wave's targets, moves them along their paths (plus bobbing and dodging),
+ * respawns them by rule and advances to the next wave when the win condition is met. Plain object, no React:
+ * TargetSystem drives it from its frame loop and turns the returned events into renders and game events.
+ */
+
+export interface Target {
+    id: number;            // Unique per spawn (a respawned target gets a new id)
+    type: string;          // Key into the level's targetTypes
+    role: TargetRole;
+    position: THREE.Vector3; // Path position + bob + dodge
+    scale: number;         // Current radius (grows in after spawning)
+    size: number;          // Full radius
+    active: boolean;
+    color: string;
+    points: number;
+    hp: number;            // Hits left
+    maxHp: number;
+    flashMs: number;       // > 0 right after a hit that didn't destroy it
+    lifeLeftMs: number | null; // Short-lived targets: time until it disappears
+    group: number;         // Spawn group index within the wave
+    anchor: THREE.Vector3; // Spawn point (orbit center)
+    base: THREE.Vector3;   // Position along the path
+    dodge: THREE.Vector3;  // Offset from evading aim rays
+    velocity: THREE.Vector3;
+    phase: number;         // Orbit / bob start angle
+    age: number;           // ms since spawn
+}
+
+export interface TargetHit {
+    target: Target;
+    destroyed: boolean; // false: armor absorbed the hit
+}
+
+export type DirectorEvent =
+    | { type: 'spawned'; target: Target }
+    | { type: 'removed'; id: number }
+    | { type: 'waveStarted'; index: number; name: string }
+    | { type: 'levelComplete' };
+
+export interface WaveStatus {
+    index: number;
+    count: number;
+    name: string;
+    breakLeftMs: number; // > 0 between waves
+    complete: boolean;
+}
+
+const SPAWN_GROW_RATE = 5; // Radius units per second (spawn-in animation)
+const SPAWN_ATTEMPTS = 10;
+const HIT_FLASH_MS = 150;
+const DODGE_RETURN_RATE = 1.5; // 1/s: how fast a dodging target drifts back onto its path once the aim moves on
+const MAX_DODGE_RADII = 2;     // Dodge offset is capped at this many evade radii
+
+/**
+ * `seed`: every spawn position, color and direction comes from it, so the same seed replays the same level.
+ * A new round gets a new director.
+ */
+export const createWaveDirector = (level: LevelDef, seed: number) => {
+    const random = createRandom(seed);
+    const targets: Target[] = []; // Live targets (stable array: removal splices)
+    let events: DirectorEvent[] = [];
+    let nextId = 0;
+
+    let waveIndex = 0;
+    let clockMs = 0;        // Always runs (respawns, movement)
+    let waveElapsedMs = 0;  // Only runs while the round is being played
+    let waveHits = 0;
+    let breakLeftMs = 0;
+    let complete = false;
+    let running = false;
+    let respawnsLeft: number[] = []; // Per spawn group
+    let pending: { group: number; atMs: number }[] = [];
+
+    const wave = () => level.waves[waveIndex];
+    const randomIn = (min: number, max: number) => min + random() * (max - min);
+
+    // Random point in the group's volume, retrying a few times to keep the spacing from live targets
+    const pickPosition = ({volume, minSpacing}: SpawnGroup) => {
+        const pos = new THREE.Vector3();
+        for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+            pos.set(
+                randomIn(volume.min[0], volume.max[0]),
+                randomIn(volume.min[1], volume.max[1]),
+                randomIn(volume.min[2], volume.max[2])
+            );
+            if (targets.every(t => pos.distanceTo(t.position) >= minSpacing)) break;
+        }
+        return pos;
+    };
+
+    const spawn = (groupIndex: number) => {
+        const group = wave().spawns[groupIndex];
+        const type = level.targetTypes[group.type];
+        const anchor = pickPosition(group);
+
+        const velocity = new THREE.Vector3();
+        if (group.path.kind === 'linear') {
+            // Random direction across the screen plane
+            const angle = random() * Math.PI * 2;
+            velocity.set(Math.cos(angle), Math.sin(angle), 0).multiplyScalar(group.path.speed);
+        }
+
+        const target: Target = {
+            id: nextId++,
+            type: group.type,
+            role: type.role,
+            position: anchor.clone(),
+            scale: 0,
+            size: type.scale,
+            active: true,
+            color: type.colors[Math.floor(random() * type.colors.length)],
+            points: type.points,
+            hp: type.hp,
+            maxHp: type.hp,
+            flashMs: 0,
+            lifeLeftMs: type.lifetimeMs,
+            group: groupIndex,
+            anchor,
+            base: anchor.clone(),
+            dodge: new THREE.Vector3(),
+            velocity,
+            phase: random() * Math.PI * 2,
+            age: 0
+        };
+        move(target, 0, []);
+        targets.push(target);
+        events.push({type: 'spawned', target});
+    };
+
+    const remove = (index: number) => {
+        const [target] = targets.splice(index, 1);
+        target.active = false;
+        events.push({type: 'removed', id: target.id});
+    };
+
+    const clearTargets = () => {
+        while (targets.length > 0) remove(targets.length - 1);
+        pending = [];
+    };
+
+    const startWave = (index: number) => {
+        clearTargets();
+        waveIndex = index;
+        waveElapsedMs = 0;
+        waveHits = 0;
+        breakLeftMs = 0;
+        respawnsLeft = wave().spawns.map(group => group.respawn ? group.respawn.limit ?? Infinity : 0);
+        wave().spawns.forEach((group, g) => {
+            for (let i = 0; i < group.count; i++) spawn(g);
+        });
+        events.push({type: 'waveStarted', index, name: wave().name});
+    };
+
+    // Scratch
+    const closest = new THREE.Vector3();
+    const probe = new THREE.Vector3();
+
+    const move = (target: Target, dtMs: number, aimRays: THREE.Ray[]) => {
+        const {path, volume} = wave().spawns[target.group];
+        const {bob, evade} = level.targetTypes[target.type];
+        const dt = dtMs / 1000;
+        const {base, position, dodge} = target;
+
+        // 1. Path
+        if (path.kind === 'linear') {
+            base.addScaledVector(target.velocity, dt);
+            // Bounce off the spawn volume
+            (['x', 'y', 'z'] as const).forEach((axis, i) => {
+                if (base[axis] < volume.min[i] || base[axis] > volume.max[i]) {
+                    base[axis] = Math.min(volume.max[i], Math.max(volume.min[i], base[axis]));
+                    target.velocity[axis] *= -1;
+                }
+            });
+        } else if (path.kind === 'orbit') {
+            const angle = target.phase + (target.age / path.periodMs) * Math.PI * 2;
+            base.set(
+                target.anchor.x + Math.cos(angle) * path.radius,
+                target.anchor.y + Math.sin(angle) * path.radius,
+                target.anchor.z
+            );
+        }
+        position.copy(base);
+
+        // 2. Bobbing
+        if (bob) position.y += Math.sin(target.phase + (target.age / bob.periodMs) * Math.PI * 2) * bob.amplitude;
+
+        // 3. Dodging: slide sideways away from any aim ray that passes too close, drift back otherwise
+        if (evade) {
+            let threatened = false;
+            aimRays.forEach(ray => {
+                probe.copy(position).add(dodge);
+                ray.closestPointToPoint(probe, closest);
+                const away = probe.sub(closest);
+                const distance = away.length();
+                if (distance >= evade.radius + target.size) return;
+
+                threatened = true;
+                if (distance < 1e-6) away.set(0, 1, 0); // Dead center: pick a side
+                dodge.addScaledVector(away.normalize(), evade.speed * dt);
+            });
+            if (!threatened) dodge.multiplyScalar(Math.exp(-DODGE_RETURN_RATE * dt));
+            dodge.clampLength(0, evade.radius * MAX_DODGE_RADII);
+            position.add(dodge);
+
+            // Never dodge out of the spawn volume
+            (['x', 'y', 'z'] as const).forEach((axis, i) => {
+                const clamped = Math.min(volume.max[i], Math.max(volume.min[i], position[axis]));
+                dodge[axis] += clamped - position[axis];
+                position[axis] = clamped;
+            });
+        }
+    };
+
+    const isWaveWon = () => {
+        const win = wave().win;
+        if (!win) return false;
+        switch (win.kind) {
+            case 'hits':
+                return waveHits >= win.count;
+            case 'clear': {
+                // Decoys are meant to be left alone
+                const isDecoy = (group: number) => level.targetTypes[wave().spawns[group].type].role === 'decoy';
+                return targets.every(t => t.role === 'decoy')
+                    && pending.every(p => isDecoy(p.group))
+                    && respawnsLeft.every((n, group) => n === 0 || isDecoy(group));
+            }
+            case 'time':
+                return waveElapsedMs >= win.ms;
+        }
+    };
+
+    const scheduleRespawn = (target: Target) => {
+        const {respawn} = wave().spawns[target.group];
+        if (respawn && respawnsLeft[target.group] > 0) {
+            respawnsLeft[target.group]--;
+            pending.push({group: target.group, atMs: clockMs + respawn.delayMs});
+        }
+    };
+
+    /**
+     * Advances the level. Returns everything that happened since the last call (including hits).
+     * `isRunning`: a round is being played, so waves progress and hits count.
+     * `aimRays`: where the players are aiming (eye -> crosshair), for evasive targets.
+     */
+    const update = (dtMs: number, isRunning: boolean, aimRays: THREE.Ray[] = []): DirectorEvent[] => {
+        running = isRunning;
+        clockMs += dtMs;
+
+        if (breakLeftMs > 0) {
+            breakLeftMs -= dtMs;
+            if (breakLeftMs <= 0) startWave(waveIndex + 1);
+        } else {
+            // 1. Movement + spawn-in animation
+            targets.forEach(target => {
+                target.age += dtMs;
+                target.scale = Math.min(target.size, target.scale + (dtMs / 1000) * SPAWN_GROW_RATE);
+                target.flashMs = Math.max(0, target.flashMs - dtMs);
+                move(target, dtMs, aimRays);
+            });
+
+            // Short-lived targets run out (and respawn like destroyed ones)
+            for (let i = targets.length - 1; i >= 0; i--) {
+                const target = targets[i];
+                if (target.lifeLeftMs === null) continue;
+                target.lifeLeftMs -= dtMs;
+                if (target.lifeLeftMs > 0) continue;
+                remove(i);
+                scheduleRespawn(target);
+            }
+
+            // 2. Respawns
+            pending = pending.filter(({group, atMs}) => {
+                if (atMs > clockMs) return true;
+                spawn(group);
+                return false;
+            });
+
+            // 3. Win condition
+            if (running && !complete) {
+                waveElapsedMs += dtMs;
+                if (isWaveWon()) {
+                    if (waveIndex === level.waves.length - 1) {
+                        complete = true;
+                        pending = [];
+                        events.push({type: 'levelComplete'});
+                    } else {
+                        clearTargets();
+                        breakLeftMs = wave().breakMs;
+                        if (breakLeftMs <= 0) startWave(waveIndex + 1);
+                    }
+                }
+            }
+        }
+
+        const out = events;
+        events = [];
+        return out;
+    };
+
+    /**
+     * Damages a target, destroying it when its hit points run out.
+     * Returns the target (for its type, role and points), or null if it was already gone.
+     */
+    const hit = (id: number): TargetHit | null => {
+        const index = targets.findIndex(t => t.id === id);
+        if (index === -1) return null;
+        const target = targets[index];
+
+        target.hp--;
+        if (target.hp > 0) {
+            target.flashMs = HIT_FLASH_MS;
+            return {target, destroyed: false};
+        }
+
+        remove(index);
+        if (running && target.role !== 'decoy') waveHits++;
+        scheduleRespawn(target);
+        return {target, destroyed: true};
+    };
+
+    const getStatus = (): WaveStatus => ({
+        index: waveIndex,
+        count: level.waves.length,
+        name: wave().name,
+        breakLeftMs: Math.max(0, breakLeftMs),
+        complete
+    });
+
+    startWave(0);
+
+    return {targets, update, hit, getStatus};
+};
+
+export type WaveDirector = ReturnType<typeof createWaveDirector>;
@@ -0,0 +1,42 @@
+import {useEffect, useState} from 'react';
+import {Diorama, DioramaSource, disposeDiorama, loadDiorama} from '../utils/diorama';
+
+interface DioramaState {
+    source: DioramaSource | null;
+    diorama: Diorama | null;
+    error: string | null;
+}
+
+/**
+ * Loads the window-mode model. The previous model stays until the next one is ready, and is freed then.
+ */
+export const useDiorama = (source: DioramaSource | null) => {
+    const [state, setState] = useState<DioramaState>({source: null, diorama: null, error: null});
+
+    useEffect(() => {
+        if (!source) return;
+        let cancelled = false;
+        loadDiorama(source)
+            .then(diorama => {
+                if (cancelled) disposeDiorama(diorama);
+                else setState({source, diorama, error: null});
+            })
+            .catch(err => {
+                console.error('Model load failed:', err);
+                if (!cancelled) {
+                    setState(prev => ({...prev, source, error: err instanceof Error ? err.message : String(err)}));
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [source]);
+
+    // Free the GPU resources of a model once it's replaced (or on unmount)
+    const {diorama} = state;
+    useEffect(() => () => {
+        if (diorama) disposeDiorama(diorama);
+    }, [diorama]);
+
+    return {...state, loading: source !== null && state.source !== source};
+};
@@ -1,12 +1,11 @@
 import {useEffect, useRef, useState} from 'react';
 import {FaceLandmarker, FilesetResolver} from '@mediapipe/tasks-vision';
+import {DEFAULT_VIEWPOINT, estimateHeadPosition, ViewpointSource} from '../utils/faceGeometry';
+import {PARALLAX_CONSTANTS} from '../utils/parallaxUtils';
+import {FacePosition} from '../tracking/types';
+import {getMediaPipeAssetUrls} from '../tracking/mediaPipeAssets';
 
-export interface FacePosition {
-    x: number; // -1 to 1 (left to right)
-    y: number; // -1 to 1 (bottom to top)
-    z: number; // Estimated distance
-    detected: boolean;
-}
+export type {FacePosition} from '../tracking/types';
 
 export interface NormalizedLandmark {
     x: number;
@@ -15,24 +14,33 @@ export interface NormalizedLandmark {
     visibility?: number;
 }
 
-export const useFaceTracking = () => {
-    const [facePosition, setFacePosition] = useState<FacePosition>({x: 0, y: 0, z: 0, detected: false});
+export const useFaceTracking = ({viewpoint = DEFAULT_VIEWPOINT}: { viewpoint?: ViewpointSource } = {}) => {
+    const [facePosition, setFacePosition] = useState<FacePosition>({
+        x: 0, y: 0, z: PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM, detected: false, timestamp: 0
+    });
     const [landmarks, setLandmarks] = useState<NormalizedLandmark[]>([]);
-    const facePositionRef = useRef<FacePosition>({x: 0, y: 0, z: 0, detected: false});
+    const facePositionRef = useRef<FacePosition>({
+        x: 0, y: 0, z: PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM, detected: false, timestamp: 0
+    });
     const videoRef = useRef<HTMLVideoElement>(null);
     const requestRef = useRef<number>(0);
 
+    // Read inside the detection loop, so switching viewpoint doesn't restart MediaPipe
+    const viewpointRef = useRef<ViewpointSource>(viewpoint);
+    useEffect(() => {
+        viewpointRef.current = viewpoint;
+    }, [viewpoint]);
+
     useEffect(() => {
         let faceLandmarker: FaceLandmarker;
 
         const initMediaPipe = async () => {
-            const vision = await FilesetResolver.forVisionTasks(
-                'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm'
-            );
+            const assets = getMediaPipeAssetUrls();
+            const vision = await FilesetResolver.forVisionTasks(assets.wasmBase);
 
             faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
                 baseOptions: {
-                    modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
+                    modelAssetPath: assets.faceModel,
                     delegate: "GPU"
                 },
                 outputFaceBlendshapes: true,
@@ -63,39 +71,24 @@ export const useFaceTracking = () => {
 
                 if (results.faceLandmarks && results.faceLandmarks.length > 0) {
                     const landmarks = results.faceLandmarks[0];
-                    // Use point between eyes (e.g., nose bridge) as center.
-                    // MediaPipe Face Mesh: 168 is between eyes, 1 is nose tip.
-                    // Let's us average of irises or just use the noise tip for simplicity first, then refine.
-                    // Iris indices: Left: 468-472, Right: 473-477.
-
-                    // Simple approach: Use bounding box center or specific landmark.
-                    // Using landmark 1 (nose tip) for now.
-                    const nose = landmarks[1];
-
-                    // Normalize coordinates
-                    // MediaPipe returns x, y normalized [0, 1]. x: 0 left, 1 right. y: 0 top, 1 bottom.
-                    // We want: x: -1 (left) to 1 (right). y: -1 (bottom) to 1 (top).
-
-                    const x = (nose.x - 0.5) * 2;
-                    const y = -(nose.y - 0.5) * 2; // Flip Y because screen Y is down
-
-                    // Estimate Z based on face width or iris distance.
-                    // Simple depth estimation: 1 / scale. roughly implies distance.
-                    // Closer face = larger coordinates difference.
-                    // Let's use simple z coordinate from landmark[1].z which is relative to face center.
-                    // Actually, mediapipe z is relative to the image plane, but not absolute distance.
-                    // Better: use inter-pupillary distance or just standard z from mediapipe (it's normalized somewhat).
-                    // For the "Window" effect, we roughly need "head position".
-                    const z = nose.z; // TODO: Refine Z scaling
-
-
-                    const newPos = {x, y, z, detected: true};
+                    // Perspective comes from the configured viewpoint (eye midpoint by default).
+                    // Iris indices: 468-472 and 473-477. Their spacing gives us the distance.
+
+                    // Estimate metric head position (cm) with a pinhole model:
+                    // distance = focal_px * real_size / apparent_size_px, using inter-pupillary distance.
+                    // MediaPipe's own landmark z is relative to the face center, not an absolute distance.
+                    const {x, y, z} = estimateHeadPosition(landmarks, {
+                        width: videoRef.current.videoWidth,
+                        height: videoRef.current.videoHeight
+                    }, {viewpoint: viewpointRef.current});
+
+                    const newPos = {x, y, z, detected: true, timestamp: startTimeMs};
                     facePositionRef.current = newPos;
                     setFacePosition(newPos);
                     setLandmarks(landmarks);
                 } else {
-                    facePositionRef.current = {...facePositionRef.current, detected: false};
-                    setFacePosition(prev => ({...prev, detected: false}));
+                    facePositionRef.current = {...facePositionRef.current, detected: false, timestamp: startTimeMs};
+                    setFacePosition(prev => ({...prev, detected: false, timestamp: startTimeMs}));
                     setLandmarks([]);
                 }
             }
@@ -0,0 +1,38 @@
+import {useEffect, useSyncExternalStore} from 'react';
+import {Simulation} from '../game/simulation';
+import {isInteractiveTarget} from '../tracking/syntheticSources';
+
+/**
+ * Round state from the simulation (which runs the clock and the score), plus keyboard shortcuts
+ * (Enter: start / resume, P or Escape: pause) and auto-pause when the tab is hidden.
+ * Shortcuts are off while the game isn't shown (`enabled`).
+ */
+export const useGameState = (simulation: Simulation, enabled = true) => {
+    const state = useSyncExternalStore(simulation.subscribe, simulation.getGame, simulation.getGame);
+    const {send} = simulation;
+    const {phase} = state;
+
+    useEffect(() => {
+        if (!enabled) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || isInteractiveTarget(e.target)) return;
+            if (e.code === 'Enter') {
+                send({type: phase === 'paused' ? 'resume' : 'start'});
+            } else if (e.code === 'KeyP' || e.code === 'Escape') {
+                send({type: phase === 'paused' ? 'resume' : 'pause'});
+            }
+        };
+        const onVisibilityChange = () => {
+            if (document.hidden) send({type: 'pause'});
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        };
+    }, [enabled, phase, send]);
+
+    return {state, send};
+};
@@ -0,0 +1,81 @@
+import {RefObject, useCallback, useRef} from 'react';
+import {FacePosition} from '../tracking/types';
+import {createPoseFilter, PoseFilter, PoseFilterKind} from '../utils/poseFilters';
+import {PARALLAX_CONSTANTS} from '../utils/parallaxUtils';
+
+export interface HeadPoseFilterOptions {
+    filter?: PoseFilterKind;
+    latencyMs?: number; // Render -> photons latency to compensate for (predict this far ahead)
+}
+
+/**
+ * Returns the filtered head pose at a given time (ms, performance.now clock).
+ * Shared by ParallaxCamera and BulletSystem, so the eye they use is always identical.
+ */
+export type HeadPoseSampler = (timeMs: number) => FacePosition;
+
+type Pose = { x: number; y: number; z: number };
+
+// Where the eye goes while no face is tracked (webcam space)
+const REST_POSE: Pose = {x: 0, y: 0, z: PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM};
+const TRANSITION_MS = 500; // Blend time when the face is lost or found again
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Filter stage between raw tracking and everything that needs the eye position.
+ * New tracking samples are pushed lazily when the pose is sampled, so there is no extra loop.
+ * Only tracked samples go through the filter; it starts over whenever the face is lost or found, and a
+ * separate blend covers the jump (to the rest pose while lost). `detected` is passed through from tracking.
+ */
+export const useHeadPoseFilter = (
+    facePositionRef: RefObject<FacePosition>,
+    {filter = 'oneEuro', latencyMs = 30}: HeadPoseFilterOptions = {}
+): HeadPoseSampler => {
+    const poseFilter = useRef<{ kind: PoseFilterKind; instance: PoseFilter } | null>(null);
+    const lastSampleTime = useRef<number>(-1);
+    const wasDetected = useRef(false);
+    const lastPose = useRef<Pose>(REST_POSE);
+    const transition = useRef({from: REST_POSE, startMs: -Infinity});
+
+    return useCallback((timeMs: number) => {
+        const raw = facePositionRef.current;
+
+        // Created lazily, and again when the filter kind changes
+        if (poseFilter.current?.kind !== filter) {
+            poseFilter.current = {kind: filter, instance: createPoseFilter(filter)};
+            lastSampleTime.current = -1; // Feed the current sample to the new filter
+        }
+        const {instance} = poseFilter.current;
+
+        // 1. Found / lost: forget the old track and blend from where the eye is now
+        if (raw.detected !== wasDetected.current) {
+            wasDetected.current = raw.detected;
+            instance.reset();
+            lastSampleTime.current = -1;
+            transition.current = {from: lastPose.current, startMs: timeMs};
+        }
+
+        // 2. Feed new tracking samples (one per processed video frame)
+        if (raw.detected && raw.timestamp !== lastSampleTime.current) {
+            lastSampleTime.current = raw.timestamp;
+            instance.update({x: raw.x, y: raw.y, z: raw.z, t: raw.timestamp});
+        }
+
+        // 3. Predict where the head will be when this frame is displayed
+        const target = raw.detected ? instance.predict(timeMs + latencyMs) ?? lastPose.current : REST_POSE;
+
+        // 4. Ease out of the last transition (smoothstep)
+        const t = Math.min(1, (timeMs - transition.current.startMs) / TRANSITION_MS);
+        const blend = t * t * (3 - 2 * t);
+        const {from} = transition.current;
+        const pose = {
+            x: lerp(from.x, target.x, blend),
+            y: lerp(from.y, target.y, blend),
+            z: lerp(from.z, target.z, blend),
+        };
+        lastPose.current = pose;
+
+        return {...pose, detected: raw.detected, timestamp: timeMs};
+    }, [facePositionRef, filter, latencyMs]);
+};
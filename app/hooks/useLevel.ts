@@ -0,0 +1,34 @@
+import {useEffect, useState} from 'react';
+import {ENDLESS_LEVEL, LevelDef, loadLevel} from '../game/levels';
+
+interface LevelState {
+    id: string;
+    level: LevelDef | null; // null while loading
+    error: string | null;   // Why the built-in endless level is being played instead
+}
+
+/**
+ * Loads `public/levels/<id>.json`. A missing or invalid file falls back to the built-in endless level,
+ * with the validation message in `error`.
+ */
+export const useLevel = (id: string) => {
+    const [state, setState] = useState<LevelState>({id, level: null, error: null});
+
+    useEffect(() => {
+        let cancelled = false;
+        loadLevel(id)
+            .then(level => {
+                if (!cancelled) setState({id, level, error: null});
+            })
+            .catch(err => {
+                console.error('Level load failed:', err);
+                if (!cancelled) setState({id, level: ENDLESS_LEVEL, error: err instanceof Error ? err.message : String(err)});
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    // Stale result from the previous id: still loading
+    return state.id === id ? state : {id, level: null, error: null};
+};
@@ -0,0 +1,35 @@
+import {useEffect, useState} from 'react';
+import {loadScreenLayout, ScreenLayout} from '../utils/screenLayout';
+
+interface ScreenLayoutState {
+    id: string | null;
+    layout: ScreenLayout | null; // null: the single default screen (also while loading)
+    error: string | null;        // Why the default screen is being used instead
+}
+
+/**
+ * Loads `public/screens/<id>.json` when an id is given. A missing or invalid file falls back to the
+ * single default screen, with the validation message in `error`.
+ */
+export const useScreenLayout = (id: string | null) => {
+    const [state, setState] = useState<ScreenLayoutState>({id, layout: null, error: null});
+
+    useEffect(() => {
+        if (id === null) return;
+        let cancelled = false;
+        loadScreenLayout(id)
+            .then(layout => {
+                if (!cancelled) setState({id, layout, error: null});
+            })
+            .catch(err => {
+                console.error('Screen layout load failed:', err);
+                if (!cancelled) setState({id, layout: null, error: err instanceof Error ? err.message : String(err)});
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    // Stale result from the previous id: still loading
+    return state.id === id ? state : {id, layout: null, error: null};
+};
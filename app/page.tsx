@@ -1,9 +1,29 @@
 import Scene from "./components/Scene";
+import {parseSeed, randomSeed} from "./utils/random";
+
+type SearchParam = string | string[] | undefined;
+
+// `?seed=1&seed=2` arrives as an array: the first value wins
+const first = (value: SearchParam) => Array.isArray(value) ? value[0] : value;
+
+export default async function Home({searchParams}: {
+    searchParams: Promise<{ source?: SearchParam; level?: SearchParam; seed?: SearchParam; screens?: SearchParam; mode?: SearchParam; model?: SearchParam }>
+}) {
+    const params = await searchParams;
+    // Picked here rather than in the client, so server and client render the same seed
+    const fixedSeed = parseSeed(first(params.seed));
 
-export default function Home() {
     return (
         <main className="w-full h-full bg-black">
-            <Scene/>
+            <Scene
+                initialSource={first(params.source)}
+                initialLevel={first(params.level)}
+                screenLayout={first(params.screens)}
+                initialMode={first(params.mode)}
+                initialModel={first(params.model)}
+                seed={fixedSeed ?? randomSeed()}
+                seedFixed={fixedSeed !== null}
+            />
         </main>
     );
 }
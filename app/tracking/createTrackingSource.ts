@@ -0,0 +1,35 @@
+import {ViewpointSource} from '../utils/faceGeometry';
+import {createMediaPipeSource} from './mediaPipeSource';
+import {createKeyboardSource, createMouseSource} from './syntheticSources';
+import {TrackingRecording} from './recording';
+import {createReplaySource} from './replaySource';
+import {TrackingSource, TrackingSourceKind} from './types';
+import {WebcamSettings} from './webcam';
+
+export interface TrackingSourceContext {
+    video: HTMLVideoElement | null;
+    getViewpoint: () => ViewpointSource;
+    camera?: WebcamSettings; // Used by 'mediapipe'
+    recording?: TrackingRecording | null; // Required for 'replay'
+}
+
+// Used when the requested source fails to start (no webcam, permission denied, ...)
+export const FALLBACK_TRACKING_SOURCE: TrackingSourceKind = 'mouse';
+
+export const createTrackingSource = (
+    kind: TrackingSourceKind,
+    {video, getViewpoint, camera, recording}: TrackingSourceContext
+): TrackingSource => {
+    switch (kind) {
+        case 'mediapipe':
+            if (!video) throw new Error('MediaPipe tracking needs a video element');
+            return createMediaPipeSource({video, getViewpoint, camera});
+        case 'replay':
+            if (!recording) throw new Error('No recording loaded');
+            return createReplaySource(recording, getViewpoint);
+        case 'keyboard':
+            return createKeyboardSource();
+        default:
+            return createMouseSource();
+    }
+};
@@ -0,0 +1,154 @@
+import {GestureResult} from './gestures';
+import {FaceControlResult} from './faceControls';
+import {FacePosition, Handedness, HandData, TrackingFrame} from './types';
+
+/**
+ * Rolling tracking + render statistics for the diagnostics panel.
+ * Fed from the tracking callback and the render loop without React state; the panel polls it.
+ */
+
+export const DIAGNOSTICS_DEFAULTS = {
+    RATE_WINDOW_MS: 1000,  // Frame rates are counted over this window
+    SMOOTHING: 0.1,        // Exponential moving average weight of a new timing sample
+    HEAD_HISTORY: 300,     // Render frames of raw vs filtered head position (~5 s at 60 fps)
+    SPEED_HISTORY: 150,    // Tracking frames of index tip speed per hand
+};
+
+export interface DiagnosticsStats {
+    trackingFps: number;  // Processed webcam frames per second
+    renderFps: number;
+    inferenceMs: { face: number; hand: number };
+    latencyMs: number;    // Frame capture -> first render that uses it
+}
+
+export interface HeadSample {
+    raw: { x: number; y: number; z: number };
+    filtered: { x: number; y: number; z: number };
+    detected: boolean;
+}
+
+// Event times within the last window
+const createRateMeter = (windowMs: number) => {
+    const times: number[] = [];
+    return {
+        tick: (now: number) => {
+            times.push(now);
+            while (times.length > 0 && times[0] < now - windowMs) times.shift();
+        },
+        rate: (now: number) => {
+            while (times.length > 0 && times[0] < now - windowMs) times.shift();
+            return times.length * 1000 / windowMs;
+        },
+        clear: () => {
+            times.length = 0;
+        },
+    };
+};
+
+const smooth = (average: number, sample: number) =>
+    average === 0 ? sample : average + (sample - average) * DIAGNOSTICS_DEFAULTS.SMOOTHING;
+
+export const createTrackingDiagnostics = () => {
+    const tracking = createRateMeter(DIAGNOSTICS_DEFAULTS.RATE_WINDOW_MS);
+    const render = createRateMeter(DIAGNOSTICS_DEFAULTS.RATE_WINDOW_MS);
+    const inferenceMs = {face: 0, hand: 0};
+    let latencyMs = 0;
+    let lastRenderedSample = -1;
+
+    // Ring buffers, preallocated so the render loop doesn't allocate
+    const head: HeadSample[] = Array.from({length: DIAGNOSTICS_DEFAULTS.HEAD_HISTORY}, () => ({
+        raw: {x: 0, y: 0, z: 0},
+        filtered: {x: 0, y: 0, z: 0},
+        detected: false
+    }));
+    let headNext = 0;
+    let headCount = 0;
+
+    const tipSpeeds: Record<Handedness, number[]> = {left: [], right: []};
+    let gestures: { handedness: Handedness; gesture: GestureResult }[] = [];
+    let hands: HandData[] = [];
+    let faceControls: FaceControlResult | null = null;
+    let videoSize = {width: 0, height: 0};
+
+    return {
+        // Every tracking frame (webcam, replay or synthetic)
+        recordFrame: (frame: TrackingFrame, now = performance.now()) => {
+            tracking.tick(now);
+            hands = frame.hands;
+            if (frame.videoSize) videoSize = frame.videoSize;
+            if (frame.faceControls) faceControls = frame.faceControls;
+
+            const {inferenceMs: timing, gestures: frameGestures} = frame.diagnostics ?? {};
+            if (timing?.face) inferenceMs.face = smooth(inferenceMs.face, timing.face);
+            if (timing?.hand) inferenceMs.hand = smooth(inferenceMs.hand, timing.hand);
+
+            // Hands skipped on this frame: keep the last recognizer values
+            if (!frameGestures) return;
+            gestures = frameGestures;
+            (Object.keys(tipSpeeds) as Handedness[]).forEach(handedness => {
+                const entry = frameGestures.find(g => g.handedness === handedness);
+                const speeds = tipSpeeds[handedness];
+                speeds.push(entry ? -entry.gesture.tipSpeedY : NaN); // Upward speed; NaN: hand not seen
+                if (speeds.length > DIAGNOSTICS_DEFAULTS.SPEED_HISTORY) speeds.shift();
+            });
+        },
+
+        // Every rendered frame, with the raw and the filtered pose the camera used
+        recordRender: (raw: FacePosition, filtered: FacePosition, now = performance.now()) => {
+            render.tick(now);
+
+            // Latency is measured on the first frame that shows a new sample
+            if (raw.detected && raw.timestamp !== lastRenderedSample) {
+                lastRenderedSample = raw.timestamp;
+                latencyMs = smooth(latencyMs, now - raw.timestamp);
+            }
+
+            const sample = head[headNext];
+            sample.raw.x = raw.x;
+            sample.raw.y = raw.y;
+            sample.raw.z = raw.z;
+            sample.filtered.x = filtered.x;
+            sample.filtered.y = filtered.y;
+            sample.filtered.z = filtered.z;
+            sample.detected = raw.detected;
+            headNext = (headNext + 1) % head.length;
+            headCount = Math.min(headCount + 1, head.length);
+        },
+
+        getStats: (now = performance.now()): DiagnosticsStats => ({
+            trackingFps: tracking.rate(now),
+            renderFps: render.rate(now),
+            inferenceMs: {...inferenceMs},
+            latencyMs
+        }),
+
+        // Oldest first
+        getHeadHistory: (): HeadSample[] => {
+            const start = (headNext - headCount + head.length) % head.length;
+            return Array.from({length: headCount}, (_, i) => head[(start + i) % head.length]);
+        },
+
+        getTipSpeeds: (handedness: Handedness): readonly number[] => tipSpeeds[handedness],
+        getGestures: () => gestures,
+        getHands: () => hands,
+        getFaceControls: () => faceControls,
+        getVideoSize: () => videoSize,
+
+        // Forget the history (e.g. when the tracking source changes)
+        reset: () => {
+            tracking.clear();
+            render.clear();
+            inferenceMs.face = 0;
+            inferenceMs.hand = 0;
+            latencyMs = 0;
+            headCount = 0;
+            tipSpeeds.left = [];
+            tipSpeeds.right = [];
+            gestures = [];
+            hands = [];
+            faceControls = null;
+        },
+    };
+};
+
+export type TrackingDiagnostics = ReturnType<typeof createTrackingDiagnostics>;
@@ -0,0 +1,27 @@
+import {createPersistentStore, mergeStored} from '../utils/persistentStore';
+import {separateThresholds} from './gestures';
+import {DEFAULT_FACE_CONTROL_CONFIG, FACE_THRESHOLD_PAIRS, FaceControlConfig} from './faceControls';
+
+/**
+ * Per-user face control settings, persisted in localStorage.
+ * A module-level store (not React state) so the frame processor can read the live values every frame.
+ */
+
+const store = createPersistentStore<FaceControlConfig>({
+    key: 'parallax-window.face-controls',
+    defaults: DEFAULT_FACE_CONTROL_CONFIG,
+    sanitize: stored => separateThresholds(mergeStored(DEFAULT_FACE_CONTROL_CONFIG, stored), {}, FACE_THRESHOLD_PAIRS),
+    normalize: (config, patch) => separateThresholds(config, patch, FACE_THRESHOLD_PAIRS),
+});
+
+export const getFaceControlConfig = store.get;
+export const updateFaceControlConfig = store.update;
+
+// Thresholds back to the defaults; whether face controls are on is kept
+export const resetFaceControlConfig = () =>
+    store.update({...DEFAULT_FACE_CONTROL_CONFIG, enabled: store.get().enabled});
+
+/**
+ * React view of the face control settings (defaults during server rendering).
+ */
+export const useFaceControlConfig = store.useValue;
@@ -0,0 +1,130 @@
+import {hysteresis, ThresholdPair} from './gestures';
+
+/**
+ * Hands-free controls from MediaPipe face blendshapes (0..1 scores per facial movement):
+ * a deliberate blink fires, opening the mouth is the special action, raising the brows pauses.
+ * The head aims instead of the hand. Every action needs its expression held for a moment (natural blinks
+ * and speech are shorter) and fires once per expression.
+ */
+
+export type FaceBlendshapes = Record<string, number>; // MediaPipe category name -> score
+
+export type FaceAction = 'special' | 'pause'; // Firing goes through the head-aimed hand like any shot
+
+export interface FaceControlConfig {
+    enabled: boolean;   // Replaces hand input: head aims, face fires
+
+    aimGain: number;    // Nose offset from the image center -> crosshair offset (1: the nose must reach the image edge)
+
+    // Both eyes closed (eyeBlinkLeft / eyeBlinkRight), so a wink doesn't fire
+    blinkClose: number; // Above: closed
+    blinkOpen: number;  // Below: open again
+    blinkHoldMs: number;
+
+    mouthOpen: number;  // jawOpen
+    mouthClose: number;
+    mouthHoldMs: number;
+
+    browRaise: number;  // browInnerUp
+    browRelax: number;
+    browHoldMs: number;
+
+    cooldownMs: number; // Minimum time between shots
+}
+
+export const DEFAULT_FACE_CONTROL_CONFIG: FaceControlConfig = {
+    enabled: false,
+    aimGain: 2.5,
+    blinkClose: 0.5,
+    blinkOpen: 0.3,
+    blinkHoldMs: 250,
+    mouthOpen: 0.5,
+    mouthClose: 0.3,
+    mouthHoldMs: 400,
+    browRaise: 0.6,
+    browRelax: 0.4,
+    browHoldMs: 500,
+    cooldownMs: 400,
+};
+
+// Release below / trigger above, per expression
+export const FACE_THRESHOLD_PAIRS: ThresholdPair<FaceControlConfig>[] = [
+    ['blinkOpen', 'blinkClose'],
+    ['mouthClose', 'mouthOpen'],
+    ['browRelax', 'browRaise'],
+];
+
+// Expression scores the controls use
+export interface FaceControlValues {
+    blink: number;
+    mouth: number;
+    brow: number;
+}
+
+export interface FaceControlResult {
+    fire: boolean;    // True on the frame each action triggers
+    special: boolean;
+    pause: boolean;
+    values: FaceControlValues;
+    eyesClosed: boolean;
+    mouthOpen: boolean;
+    browRaised: boolean;
+}
+
+export const readFaceControlValues = (blendshapes: FaceBlendshapes): FaceControlValues => ({
+    blink: Math.min(blendshapes.eyeBlinkLeft ?? 0, blendshapes.eyeBlinkRight ?? 0),
+    mouth: blendshapes.jawOpen ?? 0,
+    brow: blendshapes.browInnerUp ?? 0,
+});
+
+// Hysteresis switch that triggers once, after staying on for `holdMs`
+const createHeldSwitch = () => {
+    let on = false;
+    let since = 0;
+    let triggered = false;
+
+    return {
+        isOn: () => on,
+        update: (value: number, onAbove: number, offBelow: number, holdMs: number, timeMs: number) => {
+            const next = hysteresis(on, value, onAbove, offBelow);
+            if (next && !on) {
+                since = timeMs;
+                triggered = false;
+            }
+            on = next;
+            if (!on || triggered || timeMs - since < holdMs) return false;
+            triggered = true;
+            return true;
+        },
+    };
+};
+
+/**
+ * Stateful face control recognizer (one per tracked face).
+ * `getConfig` is read on every frame, so thresholds can be tuned live. Pass null while no face is found.
+ */
+export const createFaceControlRecognizer = (getConfig: () => FaceControlConfig) => {
+    const blink = createHeldSwitch();
+    const mouth = createHeldSwitch();
+    const brow = createHeldSwitch();
+    let lastShotTime = -Infinity;
+
+    return (blendshapes: FaceBlendshapes | null, timeMs: number): FaceControlResult => {
+        const config = getConfig();
+        const values = readFaceControlValues(blendshapes ?? {}); // No face: everything releases
+
+        const blinked = blink.update(values.blink, config.blinkClose, config.blinkOpen, config.blinkHoldMs, timeMs);
+        const fire = blinked && timeMs - lastShotTime >= config.cooldownMs;
+        if (fire) lastShotTime = timeMs;
+
+        return {
+            fire,
+            special: mouth.update(values.mouth, config.mouthOpen, config.mouthClose, config.mouthHoldMs, timeMs),
+            pause: brow.update(values.brow, config.browRaise, config.browRelax, config.browHoldMs, timeMs),
+            values,
+            eyesClosed: blink.isOn(),
+            mouthOpen: mouth.isOn(),
+            browRaised: brow.isOn(),
+        };
+    };
+};
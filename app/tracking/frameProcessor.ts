@@ -0,0 +1,169 @@
+import {NormalizedLandmark} from '@mediapipe/tasks-vision';
+import {estimateHeadPosition, ViewpointSource} from '../utils/faceGeometry';
+import {getGestureConfig} from './gestureConfigStore';
+import {getFaceControlConfig} from './faceControlConfigStore';
+import {createFaceControlRecognizer, FaceBlendshapes, FaceControlConfig, FaceControlResult} from './faceControls';
+import {createGestureRecognizer, GestureConfig} from './gestures';
+import {
+    DetectedHand,
+    FacePosition,
+    FrameDiagnostics,
+    Handedness,
+    HandData,
+    INITIAL_FACE_POSITION,
+    TrackingFrame
+} from './types';
+
+/**
+ * Raw landmarker output for one video frame.
+ * `undefined` landmarks mean that model didn't run on this frame: the previous result is kept.
+ */
+export interface RawDetections {
+    timestamp: number; // ms
+    videoSize: { width: number; height: number };
+    faceLandmarks: NormalizedLandmark[] | null | undefined;
+    faceBlendshapes?: FaceBlendshapes | null; // Same frame as faceLandmarks
+    hands: DetectedHand[] | null | undefined;
+    inferenceMs?: { face: number; hand: number }; // Passed through to the diagnostics
+}
+
+/**
+ * Makes handedness unique per frame. When both hands get the same label (two players using their right hands,
+ * or a misclassification), the one further to the user's left takes the 'left' slot.
+ * The image isn't mirrored, so the user's left is the larger x.
+ */
+const assignHandedness = (hands: DetectedHand[]): DetectedHand[] => {
+    if (hands.length < 2 || hands[0].handedness !== hands[1].handedness) return hands.slice(0, 2);
+    const [a, b] = hands;
+    const aIsLeft = a.landmarks[0].x > b.landmarks[0].x; // Compare wrists
+    return [
+        {...a, handedness: aIsLeft ? 'left' : 'right'},
+        {...b, handedness: aIsLeft ? 'right' : 'left'}
+    ];
+};
+
+const NOSE_TIP = 1;
+
+/**
+ * Face controls aim with the head: a hand whose index tip is the nose, pushed away from the image center
+ * by `aimGain` so small head movements cover the screen. Same coordinates as a real index tip.
+ */
+const createHeadAimHand = (faceLandmarks: NormalizedLandmark[], isFiring: boolean, aimGain: number): HandData => {
+    const nose = faceLandmarks[NOSE_TIP];
+    const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+    const tip = {x: clamp01(0.5 + (nose.x - 0.5) * aimGain), y: clamp01(0.5 + (nose.y - 0.5) * aimGain), z: 0};
+    return {
+        handedness: 'right', // Single player: the right-hand slot
+        landmarks: [],
+        isGunPose: true,
+        isFiring,
+        wristPos: tip,
+        indexTipPos: tip
+    };
+};
+
+/**
+ * Turns raw landmarks into FacePosition + HandData (head geometry, gesture analysis).
+ * Shared by the live MediaPipe source and replays, so recorded sessions go through the exact same logic.
+ * Gesture and face control settings are read per frame (defaults to the persisted per-user config).
+ */
+export const createFrameProcessor = (
+    getViewpoint: () => ViewpointSource,
+    getConfig: () => GestureConfig = getGestureConfig,
+    getFaceConfig: () => FaceControlConfig = getFaceControlConfig
+) => {
+    // One recognizer per hand slot, so each hand keeps its own gesture history
+    let recognizers = new Map<Handedness, ReturnType<typeof createGestureRecognizer>>();
+    let faceRecognizer = createFaceControlRecognizer(getFaceConfig);
+    let lastFace: FacePosition = INITIAL_FACE_POSITION;
+    let lastHands: HandData[] = [];
+
+    const recognizerFor = (handedness: Handedness) => {
+        let recognizer = recognizers.get(handedness);
+        if (!recognizer) {
+            recognizer = createGestureRecognizer(getConfig);
+            recognizers.set(handedness, recognizer);
+        }
+        return recognizer;
+    };
+
+    const process = ({
+                         timestamp,
+                         videoSize,
+                         faceLandmarks,
+                         faceBlendshapes,
+                         hands: detectedHands,
+                         inferenceMs
+                     }: RawDetections): TrackingFrame => {
+        // 1. Face
+        let face: FacePosition;
+        if (faceLandmarks === undefined) {
+            face = lastFace; // Skipped: keep the old sample (same timestamp, so filters ignore it)
+        } else if (faceLandmarks && faceLandmarks.length > 0) {
+            // Metric head position (cm) from iris spacing + webcam FOV, taken at the chosen viewpoint
+            const {x, y, z} = estimateHeadPosition(faceLandmarks, videoSize, {viewpoint: getViewpoint()});
+            face = {x, y, z, detected: true, timestamp};
+        } else {
+            face = {...lastFace, detected: false, timestamp};
+        }
+        lastFace = face;
+
+        // 2. Hands (with face controls on: one hand, aimed by the head and fired by the face)
+        let hands: HandData[] = [];
+        const gestures: NonNullable<FrameDiagnostics['gestures']> = [];
+        let faceControls: FaceControlResult | undefined;
+        const faceConfig = getFaceConfig();
+        if (faceConfig.enabled) {
+            if (faceLandmarks === undefined) {
+                hands = lastHands.map(hand => ({...hand, isFiring: false})); // Face skipped on this frame
+            } else {
+                const found = !!faceLandmarks && faceLandmarks.length > 0;
+                faceControls = faceRecognizer(found ? faceBlendshapes ?? null : null, timestamp);
+                if (found) hands = [createHeadAimHand(faceLandmarks, faceControls.fire, faceConfig.aimGain)];
+            }
+        } else if (detectedHands === undefined) {
+            // Skipped: keep the poses, but a shot only fires on the frame it was detected
+            hands = lastHands.map(hand => ({...hand, isFiring: false}));
+        } else if (detectedHands && detectedHands.length > 0) {
+            // Recognize Gestures (aspect ratio keeps finger geometry square in pixels)
+            const aspect = videoSize.height > 0 ? videoSize.width / videoSize.height : undefined;
+
+            hands = assignHandedness(detectedHands).map(({landmarks, handedness}) => {
+                const gesture = recognizerFor(handedness)(landmarks, timestamp, aspect);
+                const {isGunPose, isFiring, indexTip, wrist} = gesture;
+                gestures.push({handedness, gesture});
+                return {
+                    handedness,
+                    landmarks,
+                    isGunPose,
+                    isFiring,
+                    wristPos: {x: wrist.x, y: wrist.y, z: wrist.z},
+                    indexTipPos: {x: indexTip.x, y: indexTip.y, z: indexTip.z}
+                };
+            });
+        }
+
+        lastHands = hands;
+
+        const diagnostics: FrameDiagnostics = {inferenceMs, gestures: detectedHands === undefined ? undefined : gestures};
+        return {
+            face,
+            hands,
+            faceLandmarks: faceLandmarks ?? undefined,
+            faceBlendshapes: faceBlendshapes ?? undefined,
+            videoSize,
+            faceControls,
+            diagnostics
+        };
+    };
+
+    // Forget gesture history (e.g. after seeking in a replay)
+    const reset = () => {
+        recognizers = new Map();
+        faceRecognizer = createFaceControlRecognizer(getFaceConfig);
+        lastFace = INITIAL_FACE_POSITION;
+        lastHands = [];
+    };
+
+    return {process, reset};
+};
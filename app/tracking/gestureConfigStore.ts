@@ -0,0 +1,28 @@
+import {createPersistentStore, mergeStored} from '../utils/persistentStore';
+import {DEFAULT_GESTURE_CONFIG, FIRE_TRIGGERS, GESTURE_POSES, GESTURE_THRESHOLD_PAIRS, GestureConfig, separateThresholds} from './gestures';
+
+/**
+ * Per-user gesture settings, persisted in localStorage.
+ * A module-level store (not React state) so the frame processor can read the live values every frame.
+ */
+
+const store = createPersistentStore<GestureConfig>({
+    key: 'parallax-window.gesture-config',
+    defaults: DEFAULT_GESTURE_CONFIG,
+    sanitize: stored => {
+        const config = mergeStored(DEFAULT_GESTURE_CONFIG, stored);
+        if (!FIRE_TRIGGERS.includes(config.trigger)) config.trigger = DEFAULT_GESTURE_CONFIG.trigger;
+        if (!(config.aimPose in GESTURE_POSES)) config.aimPose = DEFAULT_GESTURE_CONFIG.aimPose;
+        return separateThresholds(config, {}, GESTURE_THRESHOLD_PAIRS);
+    },
+    normalize: (config, patch) => separateThresholds(config, patch, GESTURE_THRESHOLD_PAIRS),
+});
+
+export const getGestureConfig = store.get;
+export const updateGestureConfig = store.update;
+export const resetGestureConfig = () => store.update(DEFAULT_GESTURE_CONFIG);
+
+/**
+ * React view of the gesture settings (defaults during server rendering).
+ */
+export const useGestureConfig = store.useValue;
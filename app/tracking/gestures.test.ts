@@ -0,0 +1,32 @@
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_GESTURE_CONFIG, GESTURE_THRESHOLD_PAIRS, hysteresis, separateThresholds} from './gestures';
+
+describe('hysteresis', () => {
+    it('keeps its state between the thresholds', () => {
+        expect(hysteresis(false, 0.6, 0.7, 0.3)).toBe(false);
+        expect(hysteresis(true, 0.6, 0.7, 0.3)).toBe(true);
+        expect(hysteresis(true, 0.2, 0.7, 0.3)).toBe(false);
+    });
+
+    it('switches on below `on` when `on` is the lower threshold', () => {
+        expect(hysteresis(false, 0.2, 0.3, 0.5)).toBe(true);
+        expect(hysteresis(true, 0.4, 0.3, 0.5)).toBe(true);
+        expect(hysteresis(true, 0.6, 0.3, 0.5)).toBe(false);
+    });
+});
+
+describe('separateThresholds', () => {
+    it('pushes the other threshold when one is dragged past it', () => {
+        const raised = {...DEFAULT_GESTURE_CONFIG, pinchClose: 0.8};
+        expect(separateThresholds(raised, {pinchClose: 0.8}, GESTURE_THRESHOLD_PAIRS))
+            .toMatchObject({pinchClose: 0.8, pinchOpen: 0.85});
+
+        const lowered = {...DEFAULT_GESTURE_CONFIG, thumbUp: 0.2};
+        expect(separateThresholds(lowered, {thumbUp: 0.2}, GESTURE_THRESHOLD_PAIRS))
+            .toMatchObject({thumbDown: 0.15, thumbUp: 0.2});
+    });
+
+    it('leaves valid settings alone', () => {
+        expect(separateThresholds(DEFAULT_GESTURE_CONFIG, {}, GESTURE_THRESHOLD_PAIRS)).toEqual(DEFAULT_GESTURE_CONFIG);
+    });
+});
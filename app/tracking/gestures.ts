@@ -0,0 +1,293 @@
+import {NormalizedLandmark} from '@mediapipe/tasks-vision';
+
+/**
+ * Declarative hand gestures.
+ * A pose is a set of finger states (extended / folded) plus an optional thumb-index pinch state.
+ * Finger states come from a flexion measure with hysteresis, and the fire trigger is selectable.
+ */
+
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type FingerState = 'extended' | 'folded';
+export type FireTrigger = 'recoil' | 'pinch' | 'thumbDrop' | 'dwell';
+
+export const FIRE_TRIGGERS: FireTrigger[] = ['recoil', 'pinch', 'thumbDrop', 'dwell'];
+
+export interface PoseDefinition {
+    fingers: Partial<Record<Finger, FingerState>>; // Unlisted fingers don't matter
+    pinch?: 'open' | 'closed'; // Thumb tip <-> index tip
+}
+
+export const GESTURE_POSES = {
+    // Index out, the rest curled. The thumb is free (used by the thumbDrop trigger).
+    gun: {fingers: {index: 'extended', middle: 'folded', ring: 'folded', pinky: 'folded'}},
+    openHand: {fingers: {thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended'}},
+    fist: {fingers: {index: 'folded', middle: 'folded', ring: 'folded', pinky: 'folded'}},
+} satisfies Record<string, PoseDefinition>;
+
+export type GesturePoseName = keyof typeof GESTURE_POSES;
+
+/**
+ * Per-user tunable thresholds. Every on/off decision uses a pair of thresholds (hysteresis),
+ * so a value hovering around one threshold doesn't flicker.
+ */
+export interface GestureConfig {
+    aimPose: GesturePoseName;
+    trigger: FireTrigger;
+
+    // Finger extension = |MCP -> tip| / finger chain length (1 = straight, ~0.4 = curled)
+    extendThreshold: number; // Above: extended
+    foldThreshold: number;   // Below: folded
+
+    // Distances relative to palm size (wrist -> middle MCP)
+    pinchClose: number;      // Thumb tip <-> index tip below this: pinch closed
+    pinchOpen: number;       // ... above this: open again
+    thumbDown: number;       // Thumb tip <-> index MCP below this: thumb dropped
+    thumbUp: number;         // ... above this: thumb raised again
+
+    recoilSpeed: number;     // Upward index tip speed that fires (image heights per ms)
+    recoilRelease: number;   // Speed must drop below this before the next recoil can fire
+
+    dwellMs: number;         // Hold the aim still this long to fire
+    dwellRadius: number;     // "Still" = within this radius (image fraction)
+
+    cooldownMs: number;      // Minimum time between shots
+    armGraceMs: number;      // Pose may break this long while triggering (a pinch bends the index)
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+    aimPose: 'gun',
+    trigger: 'recoil',
+    extendThreshold: 0.85,
+    foldThreshold: 0.7,
+    pinchClose: 0.3,
+    pinchOpen: 0.5,
+    thumbDown: 0.45,
+    thumbUp: 0.65,
+    recoilSpeed: 0.0005,
+    recoilRelease: 0.0002,
+    dwellMs: 800,
+    dwellRadius: 0.03,
+    cooldownMs: 400,
+    armGraceMs: 300,
+};
+
+// Hand Landmarks Indices (MediaPipe): 0 wrist, then 4 joints per finger from base to tip
+const FINGER_CHAINS: Record<Finger, number[]> = {
+    thumb: [1, 2, 3, 4],
+    index: [5, 6, 7, 8],
+    middle: [9, 10, 11, 12],
+    ring: [13, 14, 15, 16],
+    pinky: [17, 18, 19, 20],
+};
+export const FINGERS = Object.keys(FINGER_CHAINS) as Finger[];
+
+// Landmark index pairs to draw the hand skeleton: wrist -> each finger, along each finger, across the palm
+export const HAND_BONES: [number, number][] = [
+    ...FINGERS.flatMap(finger => {
+        const chain = [0, ...FINGER_CHAINS[finger]];
+        return chain.slice(1).map((joint, i): [number, number] => [chain[i], joint]);
+    }),
+    [5, 9], [9, 13], [13, 17],
+];
+const WRIST = 0;
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const THUMB_TIP = 4;
+
+/**
+ * Raw, threshold-free measurements of one hand.
+ */
+export interface HandFeatures {
+    extension: Record<Finger, number>;
+    pinchDistance: number; // Thumb tip <-> index tip / palm size
+    thumbGap: number;      // Thumb tip <-> index MCP / palm size
+}
+
+/**
+ * Measures the hand in 3D. Landmark x/y are normalized per image axis, so x is scaled by the aspect ratio
+ * to get square units; z (relative depth) uses the same scale as x, which handles fingers pointing at the camera.
+ */
+export const measureHand = (landmarks: NormalizedLandmark[], aspect = 4 / 3): HandFeatures => {
+    const dist = (a: number, b: number) => {
+        const p = landmarks[a];
+        const q = landmarks[b];
+        return Math.hypot((p.x - q.x) * aspect, p.y - q.y, (p.z - q.z) * aspect);
+    };
+
+    const extension = {} as Record<Finger, number>;
+    FINGERS.forEach(finger => {
+        const chain = FINGER_CHAINS[finger];
+        let length = 0;
+        for (let i = 1; i < chain.length; i++) length += dist(chain[i - 1], chain[i]);
+        extension[finger] = length > 0 ? dist(chain[0], chain[chain.length - 1]) / length : 0;
+    });
+
+    const palm = Math.max(1e-6, dist(WRIST, MIDDLE_MCP));
+
+    return {
+        extension,
+        pinchDistance: dist(THUMB_TIP, INDEX_TIP) / palm,
+        thumbGap: dist(THUMB_TIP, INDEX_MCP) / palm,
+    };
+};
+
+/**
+ * Schmitt trigger: switches on above `on`, off below `off`, keeps its state in between.
+ * With `on` < `off`, it switches on when the value goes *below* `on` instead.
+ */
+export const hysteresis = (current: boolean, value: number, on: number, off: number) => {
+    if (on >= off) return current ? value > off : value > on;
+    return current ? value < off : value < on;
+};
+
+export const MIN_THRESHOLD_GAP = 0.05; // Narrowest hysteresis band the settings allow (score / distance units)
+
+type NumberKey<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+// Two thresholds of one switch (`lower` must stay below `upper`), with the narrowest allowed band
+export type ThresholdPair<T> = readonly [lower: NumberKey<T>, upper: NumberKey<T>, gap?: number];
+
+/**
+ * Keeps every threshold pair of `config` in order. The value that was just changed (a key of `changed`)
+ * stays put and pushes the other one, so dragging one slider past the other can't invert the band.
+ */
+export const separateThresholds = <T extends object>(config: T, changed: Partial<T>, pairs: readonly ThresholdPair<T>[]): T => {
+    const result = {...config};
+    pairs.forEach(([lower, upper, gap = MIN_THRESHOLD_GAP]) => {
+        const low = result[lower] as number;
+        const high = result[upper] as number;
+        if (high - low >= gap) return;
+        // Rounded, so the sliders don't show float noise
+        if (lower in changed) Object.assign(result, {[upper]: Math.round((low + gap) * 1e6) / 1e6});
+        else Object.assign(result, {[lower]: Math.round((high - gap) * 1e6) / 1e6});
+    });
+    return result;
+};
+
+export const GESTURE_THRESHOLD_PAIRS: ThresholdPair<GestureConfig>[] = [
+    ['foldThreshold', 'extendThreshold'],
+    ['pinchClose', 'pinchOpen'],
+    ['thumbDown', 'thumbUp'],
+    ['recoilRelease', 'recoilSpeed', 0.0001],
+];
+
+export interface GestureResult {
+    isGunPose: boolean; // Aim pose held (name kept for HandData compatibility)
+    isFiring: boolean;
+    indexTip: NormalizedLandmark;
+    wrist: NormalizedLandmark;
+    features: HandFeatures;
+    fingers: Record<Finger, FingerState>;
+    pinchClosed: boolean;
+    thumbDown: boolean;
+    tipSpeedY: number; // Index tip vertical speed (image heights per ms, negative = up)
+}
+
+/**
+ * Stateful gesture recognizer. Create one per tracked hand.
+ * `getConfig` is read on every frame, so thresholds can be tuned live.
+ */
+export const createGestureRecognizer = (getConfig: () => GestureConfig) => {
+    const fingers: Record<Finger, FingerState> = {
+        thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended'
+    };
+    let pinchClosed = false;
+    let thumbDown = false;
+    let recoilArmed = true;
+    let lastTip: { x: number; y: number; t: number } | null = null;
+    let lastPoseTime = -Infinity;
+    let lastShotTime = -Infinity;
+    let dwellAnchor: { x: number; y: number; t: number } | null = null;
+
+    const matchesPose = (pose: PoseDefinition) => {
+        const fingersMatch = (Object.entries(pose.fingers) as [Finger, FingerState][])
+            .every(([finger, state]) => fingers[finger] === state);
+        const pinchMatches = !pose.pinch || (pose.pinch === 'closed') === pinchClosed;
+        return fingersMatch && pinchMatches;
+    };
+
+    return (landmarks: NormalizedLandmark[], timeMs: number, aspect?: number): GestureResult => {
+        const config = getConfig();
+        const features = measureHand(landmarks, aspect);
+        const indexTip = landmarks[INDEX_TIP];
+        const wrist = landmarks[WRIST];
+
+        // 1. Finger states (with hysteresis)
+        FINGERS.forEach(finger => {
+            const extended = hysteresis(
+                fingers[finger] === 'extended',
+                features.extension[finger],
+                config.extendThreshold,
+                config.foldThreshold
+            );
+            fingers[finger] = extended ? 'extended' : 'folded';
+        });
+
+        const wasPinched = pinchClosed;
+        const wasThumbDown = thumbDown;
+        pinchClosed = hysteresis(pinchClosed, features.pinchDistance, config.pinchClose, config.pinchOpen);
+        thumbDown = hysteresis(thumbDown, features.thumbGap, config.thumbDown, config.thumbUp);
+
+        // 2. Aim pose
+        const isGunPose = matchesPose(GESTURE_POSES[config.aimPose]);
+        if (isGunPose) lastPoseTime = timeMs;
+        const armed = timeMs - lastPoseTime <= config.armGraceMs;
+
+        // 3. Index tip speed
+        let tipSpeedY = 0;
+        if (lastTip) {
+            const dt = timeMs - lastTip.t; // ms
+            if (dt > 0 && dt < 100) tipSpeedY = (indexTip.y - lastTip.y) / dt; // Avoid glitches on large time gaps
+        }
+        lastTip = {x: indexTip.x, y: indexTip.y, t: timeMs};
+
+        // 4. Fire trigger
+        let triggered = false;
+        switch (config.trigger) {
+            case 'recoil': {
+                // Upward flick: y decreases, so speed is negative. Re-arms once the hand settles.
+                const upSpeed = -tipSpeedY;
+                if (recoilArmed && upSpeed > config.recoilSpeed) {
+                    triggered = true;
+                    recoilArmed = false;
+                } else if (upSpeed < config.recoilRelease) {
+                    recoilArmed = true;
+                }
+                break;
+            }
+            case 'pinch':
+                triggered = pinchClosed && !wasPinched; // Closing edge
+                break;
+            case 'thumbDrop':
+                triggered = thumbDown && !wasThumbDown; // Hammer falls
+                break;
+            case 'dwell': {
+                const moved = dwellAnchor &&
+                    Math.hypot(indexTip.x - dwellAnchor.x, indexTip.y - dwellAnchor.y) > config.dwellRadius;
+                if (!isGunPose || !dwellAnchor || moved) {
+                    dwellAnchor = {x: indexTip.x, y: indexTip.y, t: timeMs};
+                } else if (timeMs - dwellAnchor.t >= config.dwellMs) {
+                    triggered = true;
+                    dwellAnchor = {x: indexTip.x, y: indexTip.y, t: timeMs}; // Hold again for the next shot
+                }
+                break;
+            }
+        }
+
+        const isFiring = triggered && armed && timeMs - lastShotTime >= config.cooldownMs;
+        if (isFiring) lastShotTime = timeMs;
+
+        return {
+            isGunPose,
+            isFiring,
+            indexTip,
+            wrist,
+            features,
+            fingers: {...fingers},
+            pinchClosed,
+            thumbDown,
+            tipSpeedY
+        };
+    };
+};
@@ -0,0 +1,37 @@
+import {createLandmarkers, Landmarkers, runLandmarkers} from './landmarkers';
+import type {InferenceWorkerRequest, InferenceWorkerResponse} from './landmarkDetectors';
+
+// Minimal view of DedicatedWorkerGlobalScope (the project compiles against the DOM lib)
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<InferenceWorkerRequest>) => void) | null;
+    postMessage: (message: InferenceWorkerResponse) => void;
+};
+
+let landmarkers: Landmarkers | null = null;
+
+scope.onmessage = async (e) => {
+    const msg = e.data;
+
+    switch (msg.type) {
+        case 'init':
+            try {
+                landmarkers = await createLandmarkers(msg.assets);
+                scope.postMessage({type: 'ready'});
+            } catch (err) {
+                scope.postMessage({type: 'error', message: err instanceof Error ? err.message : String(err)});
+            }
+            break;
+
+        case 'detect':
+            try {
+                if (!landmarkers) throw new Error('Landmarkers not initialized');
+                const result = runLandmarkers(landmarkers, msg.frame, msg.timestamp, msg.request);
+                scope.postMessage({type: 'result', id: msg.id, result});
+            } catch (err) {
+                scope.postMessage({type: 'error', id: msg.id, message: err instanceof Error ? err.message : String(err)});
+            } finally {
+                msg.frame.close(); // Free the transferred frame right away
+            }
+            break;
+    }
+};
@@ -0,0 +1,132 @@
+import {createLandmarkers, DetectionRequest, DetectionResult, Landmarkers, runLandmarkers} from './landmarkers';
+import {MediaPipeAssetUrls} from './mediaPipeAssets';
+
+/**
+ * Runs face + hand inference on a video frame, either on the main thread or in a Web Worker.
+ */
+export interface LandmarkDetector {
+    init: () => Promise<void>;
+    detect: (video: HTMLVideoElement, timestamp: number, request: DetectionRequest) => Promise<DetectionResult>;
+    close: () => void;
+}
+
+// --- Worker protocol ---
+export type InferenceWorkerRequest =
+    | { type: 'init'; assets: MediaPipeAssetUrls }
+    | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number; request: DetectionRequest };
+
+export type InferenceWorkerResponse =
+    | { type: 'ready' }
+    | { type: 'error'; id?: number; message: string }
+    | { type: 'result'; id: number; result: DetectionResult };
+
+/**
+ * Inference inline on the main thread (fallback when workers or ImageBitmap aren't available).
+ */
+export const createMainThreadDetector = (assets: MediaPipeAssetUrls): LandmarkDetector => {
+    let landmarkers: Landmarkers | null = null;
+    let closed = false;
+
+    return {
+        init: async () => {
+            const created = await createLandmarkers(assets);
+            if (closed) {
+                created.face.close();
+                created.hand.close();
+                return;
+            }
+            landmarkers = created;
+        },
+        detect: async (video, timestamp, request) => {
+            if (!landmarkers) throw new Error('Detector not initialized');
+            return runLandmarkers(landmarkers, video, timestamp, request);
+        },
+        close: () => {
+            closed = true;
+            landmarkers?.face.close();
+            landmarkers?.hand.close();
+            landmarkers = null;
+        },
+    };
+};
+
+/**
+ * Inference in a dedicated worker. Frames are sent as transferable ImageBitmaps, results come back
+ * with the capture timestamp, so the render loop never waits on MediaPipe.
+ */
+export const createWorkerDetector = (assets: MediaPipeAssetUrls): LandmarkDetector => {
+    let worker: Worker | null = null;
+    let nextId = 1;
+    const pending = new Map<number, { resolve: (r: DetectionResult) => void; reject: (e: Error) => void }>();
+
+    // Worker resolves URLs against its own script location, so hand it absolute URLs
+    const absolute = (url: string) => new URL(url, window.location.href).href;
+
+    const rejectAll = (error: Error) => {
+        pending.forEach(({reject}) => reject(error));
+        pending.clear();
+    };
+
+    return {
+        init: () => new Promise<void>((resolve, reject) => {
+            // Classic (non-module) worker: MediaPipe loads its wasm glue with importScripts
+            worker = new Worker(new URL('./inference.worker.ts', import.meta.url));
+
+            worker.onmessage = (e: MessageEvent<InferenceWorkerResponse>) => {
+                const msg = e.data;
+                if (msg.type === 'ready') {
+                    resolve();
+                } else if (msg.type === 'result') {
+                    pending.get(msg.id)?.resolve(msg.result);
+                    pending.delete(msg.id);
+                } else if (msg.id !== undefined) {
+                    pending.get(msg.id)?.reject(new Error(msg.message));
+                    pending.delete(msg.id);
+                } else {
+                    // Init failure
+                    reject(new Error(msg.message));
+                }
+            };
+            worker.onerror = (e) => {
+                const error = new Error(`Inference worker crashed: ${e.message}`);
+                rejectAll(error);
+                reject(error);
+            };
+
+            const message: InferenceWorkerRequest = {
+                type: 'init',
+                assets: {
+                    wasmBase: absolute(assets.wasmBase),
+                    faceModel: absolute(assets.faceModel),
+                    handModel: absolute(assets.handModel),
+                }
+            };
+            worker.postMessage(message);
+        }),
+        detect: async (video, timestamp, request) => {
+            if (!worker) throw new Error('Detector not initialized');
+
+            const frame = await createImageBitmap(video);
+            const id = nextId++;
+            const message: InferenceWorkerRequest = {type: 'detect', id, frame, timestamp, request};
+
+            return new Promise<DetectionResult>((resolve, reject) => {
+                pending.set(id, {resolve, reject});
+                worker!.postMessage(message, [frame]);
+            });
+        },
+        close: () => {
+            rejectAll(new Error('Detector closed'));
+            worker?.terminate(); // Also frees the landmarkers living in the worker
+            worker = null;
+        },
+    };
+};
+
+/**
+ * Worker when the browser supports it, main thread otherwise.
+ */
+export const createLandmarkDetector = (assets: MediaPipeAssetUrls, preferWorker = true): LandmarkDetector => {
+    const canUseWorker = typeof Worker !== 'undefined' && typeof createImageBitmap !== 'undefined';
+    return preferWorker && canUseWorker ? createWorkerDetector(assets) : createMainThreadDetector(assets);
+};
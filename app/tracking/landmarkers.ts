@@ -0,0 +1,105 @@
+import {FaceLandmarker, FilesetResolver, HandLandmarker, NormalizedLandmark} from '@mediapipe/tasks-vision';
+import {DetectedHand, HANDEDNESS} from './types';
+import {FaceBlendshapes} from './faceControls';
+import {ASSET_LOAD_TIMEOUT_MS, MediaPipeAssetUrls, verifyMediaPipeAssets, withTimeout} from './mediaPipeAssets';
+
+/**
+ * MediaPipe landmarker setup + per-frame detection, shared by the main-thread and Web Worker detectors.
+ */
+
+export const MAX_HANDS = HANDEDNESS.length; // One per handedness
+export interface Landmarkers {
+    face: FaceLandmarker;
+    hand: HandLandmarker;
+}
+
+export interface DetectionRequest {
+    runFace: boolean; // Face and hands can run at different rates
+    runHand: boolean;
+}
+
+/**
+ * Landmarks for one frame. `undefined` means the model was skipped for this frame (rate limiting),
+ * `null` means it ran and found nothing.
+ */
+export interface DetectionResult {
+    timestamp: number; // ms (performance.now) when the frame was captured
+    faceLandmarks: NormalizedLandmark[] | null | undefined;
+    faceBlendshapes: FaceBlendshapes | null | undefined; // Expression scores of the same face
+    hands: DetectedHand[] | null | undefined;
+    inferenceMs: { face: number; hand: number };
+}
+
+export const createLandmarkers = async (assets: MediaPipeAssetUrls): Promise<Landmarkers> => {
+    // Fail with a clear message (missing file, unreachable server) instead of hanging
+    await verifyMediaPipeAssets(assets);
+
+    const vision = await FilesetResolver.forVisionTasks(assets.wasmBase);
+
+    // Initialize Face Landmarker (one that finishes after the timeout is closed again, not leaked)
+    const face = await withTimeout(FaceLandmarker.createFromOptions(vision, {
+        baseOptions: {
+            modelAssetPath: assets.faceModel,
+            delegate: "GPU"
+        },
+        outputFaceBlendshapes: true,
+        runningMode: "VIDEO",
+        numFaces: 1
+    }), ASSET_LOAD_TIMEOUT_MS, `Timed out initializing the face model (${assets.faceModel})`, late => late.close());
+
+    // Initialize Hand Landmarker
+    const hand = await withTimeout(HandLandmarker.createFromOptions(vision, {
+        baseOptions: {
+            modelAssetPath: assets.handModel,
+            delegate: "GPU"
+        },
+        runningMode: "VIDEO",
+        numHands: MAX_HANDS
+    }), ASSET_LOAD_TIMEOUT_MS, `Timed out initializing the hand model (${assets.handModel})`, late => late.close()).catch(err => {
+        face.close();
+        throw err;
+    });
+
+    return {face, hand};
+};
+
+export const runLandmarkers = (
+    {face, hand}: Landmarkers,
+    image: HTMLVideoElement | ImageBitmap,
+    timestamp: number,
+    {runFace, runHand}: DetectionRequest
+): DetectionResult => {
+    const inferenceMs = {face: 0, hand: 0};
+
+    // 1. Face Detection
+    let faceLandmarks: NormalizedLandmark[] | null | undefined;
+    let faceBlendshapes: FaceBlendshapes | null | undefined;
+    if (runFace) {
+        const start = performance.now();
+        const faceResults = face.detectForVideo(image, timestamp);
+        inferenceMs.face = performance.now() - start;
+        faceLandmarks = faceResults.faceLandmarks?.[0] ?? null;
+        // Plain name -> score map (it crosses the worker boundary)
+        const categories = faceResults.faceBlendshapes?.[0]?.categories;
+        faceBlendshapes = categories
+            ? Object.fromEntries(categories.map(({categoryName, score}) => [categoryName, score]))
+            : null;
+    }
+
+    // 2. Hand Detection
+    let hands: DetectedHand[] | null | undefined;
+    if (runHand) {
+        const start = performance.now();
+        const handResults = hand.detectForVideo(image, timestamp);
+        inferenceMs.hand = performance.now() - start;
+        hands = (handResults.landmarks ?? []).map((landmarks, i) => ({
+            landmarks,
+            // MediaPipe labels hands as seen in a mirrored (selfie) image; our frames aren't mirrored,
+            // so its "Left" is the user's right hand
+            handedness: handResults.handedness?.[i]?.[0]?.categoryName === 'Left' ? 'right' : 'left'
+        }));
+        if (hands.length === 0) hands = null;
+    }
+
+    return {timestamp, faceLandmarks, faceBlendshapes, hands, inferenceMs};
+};
@@ -0,0 +1,28 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {withTimeout} from './mediaPipeAssets';
+
+describe('withTimeout', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('resolves with the value when it arrives in time', async () => {
+        const onLate = vi.fn();
+        await expect(withTimeout(Promise.resolve(1), 100, 'slow', onLate)).resolves.toBe(1);
+        expect(onLate).not.toHaveBeenCalled();
+    });
+
+    it('rejects after the timeout and hands a late value to onLate', async () => {
+        vi.useFakeTimers();
+        let finish: (value: string) => void = () => {};
+        const onLate = vi.fn();
+        const timed = withTimeout(new Promise<string>(resolve => finish = resolve), 100, 'slow', onLate);
+
+        vi.advanceTimersByTime(100);
+        await expect(timed).rejects.toThrow('slow');
+
+        finish('landmarker');
+        await Promise.resolve();
+        expect(onLate).toHaveBeenCalledWith('landmarker');
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Where the MediaPipe wasm runtime and .task models are loaded from.
+ * Defaults to the app's own origin (`public/mediapipe`, filled by scripts/copy-mediapipe-assets.mjs),
+ * so installs without internet work. Override with NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE (e.g. a CDN or LAN server).
+ */
+export const MEDIAPIPE_ASSET_BASE = (process.env.NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE || '/mediapipe').replace(/\/$/, '');
+
+// Give up instead of hanging forever on a black screen
+export const ASSET_LOAD_TIMEOUT_MS = 20000;
+
+export interface MediaPipeAssetUrls {
+    wasmBase: string;
+    faceModel: string;
+    handModel: string;
+}
+
+export const getMediaPipeAssetUrls = (base: string = MEDIAPIPE_ASSET_BASE): MediaPipeAssetUrls => ({
+    wasmBase: `${base}/wasm`,
+    faceModel: `${base}/models/face_landmarker.task`,
+    handModel: `${base}/models/hand_landmarker.task`,
+});
+
+/**
+ * Rejects with `message` if the promise hasn't settled within `ms`. The work itself can't be cancelled:
+ * `onLate` receives a value that arrives after the timeout, so resources nobody waits for anymore get released.
+ */
+export const withTimeout = <T, >(promise: Promise<T>, ms: number, message: string, onLate?: (value: T) => void): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            reject(new Error(message));
+        }, ms);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                if (timedOut) onLate?.(value);
+                else resolve(value);
+            },
+            err => {
+                clearTimeout(timer);
+                reject(err);
+            }
+        );
+    });
+
+/**
+ * Checks that every asset is reachable before handing the URLs to MediaPipe,
+ * whose own errors for a missing file are vague (or it just never resolves).
+ */
+export const verifyMediaPipeAssets = async (urls: MediaPipeAssetUrls) => {
+    const required = [
+        `${urls.wasmBase}/vision_wasm_internal.js`,
+        `${urls.wasmBase}/vision_wasm_internal.wasm`,
+        urls.faceModel,
+        urls.handModel,
+    ];
+
+    await Promise.all(required.map(async url => {
+        let res: Response;
+        try {
+            res = await withTimeout(fetch(url, {method: 'HEAD'}), ASSET_LOAD_TIMEOUT_MS, `Timed out loading ${url}`);
+        } catch (err) {
+            throw new Error(`Could not reach MediaPipe asset ${url}: ${err instanceof Error ? err.message : err}`);
+        }
+        if (!res.ok) {
+            throw new Error(`MediaPipe asset missing: ${url} (HTTP ${res.status}). Run "npm run mediapipe:assets".`);
+        }
+    }));
+};
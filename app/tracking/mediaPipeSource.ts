@@ -0,0 +1,145 @@
+import {ViewpointSource} from '../utils/faceGeometry';
+import {createFrameProcessor} from './frameProcessor';
+import {createLandmarkDetector, LandmarkDetector} from './landmarkDetectors';
+import {getMediaPipeAssetUrls, MEDIAPIPE_ASSET_BASE} from './mediaPipeAssets';
+import {TrackingSource} from './types';
+import {DEFAULT_WEBCAM_SETTINGS, openWebcam, WebcamSettings} from './webcam';
+
+// Tuning parameters
+export const INFERENCE_DEFAULTS = {
+    USE_WORKER: true,     // Run MediaPipe off the main thread (falls back to inline if unavailable)
+    FACE_INTERVAL_MS: 0,  // Minimum time between face detections (0 = every video frame)
+    HAND_INTERVAL_MS: 0,  // Minimum time between hand detections, e.g. 66 for ~15 fps hands
+};
+
+interface MediaPipeSourceOptions {
+    video: HTMLVideoElement;
+    getViewpoint: () => ViewpointSource; // Read per frame, so switching doesn't restart MediaPipe
+    camera?: WebcamSettings; // Device + capture mode (defaults to the default camera at 640x480 @ 30 fps)
+    assetBase?: string; // Defaults to MEDIAPIPE_ASSET_BASE (served from this app)
+    useWorker?: boolean;
+    faceIntervalMs?: number;
+    handIntervalMs?: number;
+}
+
+/**
+ * Webcam + MediaPipe face and hand landmarkers.
+ * One frame is in flight at a time: while the detector is busy, newer video frames are skipped
+ * instead of queueing up latency.
+ */
+export const createMediaPipeSource = ({
+                                          video,
+                                          getViewpoint,
+                                          camera = DEFAULT_WEBCAM_SETTINGS,
+                                          assetBase = MEDIAPIPE_ASSET_BASE,
+                                          useWorker = INFERENCE_DEFAULTS.USE_WORKER,
+                                          faceIntervalMs = INFERENCE_DEFAULTS.FACE_INTERVAL_MS,
+                                          handIntervalMs = INFERENCE_DEFAULTS.HAND_INTERVAL_MS
+                                      }: MediaPipeSourceOptions): TrackingSource => {
+    let detector: LandmarkDetector | null = null;
+    let requestId = 0;
+    let lastVideoTime = -1;
+    let lastFaceRun = -Infinity;
+    let lastHandRun = -Infinity;
+    let busy = false;
+    let stopped = false;
+
+    const processor = createFrameProcessor(getViewpoint);
+
+    const initDetector = async () => {
+        const assets = getMediaPipeAssetUrls(assetBase);
+        detector = createLandmarkDetector(assets, useWorker);
+        try {
+            await detector.init();
+        } catch (err) {
+            if (!useWorker || stopped) throw err;
+
+            // Worker couldn't start MediaPipe (e.g. no GPU in workers): try inline before giving up
+            console.warn('Worker inference failed, falling back to main thread:', err);
+            detector.close();
+            detector = createLandmarkDetector(assets, false);
+            await detector.init();
+        }
+    };
+
+    const startWebcam = async () => {
+        // Throws a WebcamError if there is no camera, permission is denied, ... -> start() rejects
+        const stream = await openWebcam(camera);
+        if (stopped) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        video.srcObject = stream;
+    };
+
+    const stop = () => {
+        stopped = true;
+        if (requestId) cancelAnimationFrame(requestId);
+        detector?.close();
+        detector = null;
+        if (video.srcObject) {
+            (video.srcObject as MediaStream).getTracks().forEach(track => track.stop());
+            video.srcObject = null;
+        }
+    };
+
+    return {
+        kind: 'mediapipe',
+        stop,
+        start: async (onFrame) => {
+            const detectFrame = async (timestamp: number) => {
+                if (!detector) return;
+
+                // Per-model rate limiting
+                const runFace = timestamp - lastFaceRun >= faceIntervalMs;
+                const runHand = timestamp - lastHandRun >= handIntervalMs;
+                if (!runFace && !runHand) return;
+                if (runFace) lastFaceRun = timestamp;
+                if (runHand) lastHandRun = timestamp;
+
+                busy = true;
+                try {
+                    const videoSize = {width: video.videoWidth, height: video.videoHeight};
+                    const result = await detector.detect(video, timestamp, {runFace, runHand});
+                    if (stopped) return;
+
+                    onFrame(processor.process({
+                        timestamp: result.timestamp,
+                        videoSize,
+                        faceLandmarks: result.faceLandmarks,
+                        faceBlendshapes: result.faceBlendshapes,
+                        hands: result.hands,
+                        inferenceMs: result.inferenceMs
+                    }));
+                } catch (err) {
+                    if (!stopped) console.error('Landmark detection failed:', err);
+                } finally {
+                    busy = false;
+                }
+            };
+
+            const predictWebcam = () => {
+                if (stopped || !detector) return;
+
+                // Check if video frame has advanced (and the previous one is done)
+                if (video.videoWidth > 0 && video.videoHeight > 0 && !busy && video.currentTime !== lastVideoTime) {
+                    lastVideoTime = video.currentTime;
+                    // Capture timestamp: results are stamped with when the frame was grabbed, not when they arrive
+                    detectFrame(performance.now());
+                }
+
+                requestId = requestAnimationFrame(predictWebcam);
+            };
+
+            await initDetector();
+            if (stopped) {
+                stop();
+                return;
+            }
+            await startWebcam();
+            if (stopped) return;
+
+            video.addEventListener('loadeddata', predictWebcam, {once: true});
+        },
+    };
+};
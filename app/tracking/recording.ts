@@ -0,0 +1,159 @@
+import {NormalizedLandmark} from '@mediapipe/tasks-vision';
+import {FacePosition, HandData, TrackingFrame, TrackingSourceKind} from './types';
+import {FaceBlendshapes} from './faceControls';
+
+/**
+ * Tracking session file format (JSONL, `.ptrack.jsonl`):
+ * - Line 1: header  {"format":"parallax-tracking","version":2,"source":"mediapipe","createdAt":"..."}
+ * - Line 2+: frames {"t":0,"face":{...},"hands":[{...}],"faceLandmarks":[[x,y,z],...],"faceBlendshapes":{...},"videoSize":{...}}
+ * `t` is ms since the first frame. Landmarks are stored as [x, y, z] triples to keep files small.
+ * `faceBlendshapes` (expression scores, for face controls) is optional: older files simply have none.
+ * Version 1 files (single `"hand":{...}|null`) are still readable; their hand becomes the right hand.
+ */
+export const RECORDING_FORMAT = 'parallax-tracking';
+export const RECORDING_VERSION = 2;
+
+export interface RecordingHeader {
+    format: typeof RECORDING_FORMAT;
+    version: number;
+    source: TrackingSourceKind;
+    createdAt: string;
+}
+
+export interface RecordedFrame {
+    t: number; // ms since the first frame
+    face: Omit<FacePosition, 'timestamp'>;
+    hands: HandData[];
+    faceLandmarks?: NormalizedLandmark[];
+    faceBlendshapes?: FaceBlendshapes;
+    videoSize?: { width: number; height: number };
+}
+
+export interface TrackingRecording {
+    header: RecordingHeader;
+    frames: RecordedFrame[];
+    durationMs: number;
+}
+
+type Triple = [number, number, number];
+
+// 4 decimals of a normalized coordinate is well below a pixel
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+const packLandmarks = (landmarks: NormalizedLandmark[]): Triple[] =>
+    landmarks.map(l => [round(l.x), round(l.y), round(l.z)]);
+const unpackLandmarks = (triples: Triple[]): NormalizedLandmark[] =>
+    triples.map(([x, y, z]) => ({x, y, z, visibility: 0}));
+
+const serializeFrame = (frame: RecordedFrame) => JSON.stringify({
+    t: Math.round(frame.t),
+    face: frame.face,
+    hands: frame.hands.map(hand => ({...hand, landmarks: packLandmarks(hand.landmarks)})),
+    faceLandmarks: frame.faceLandmarks && packLandmarks(frame.faceLandmarks),
+    faceBlendshapes: frame.faceBlendshapes && Object.fromEntries(
+        Object.entries(frame.faceBlendshapes).map(([name, score]) => [name, round(score)])
+    ),
+    videoSize: frame.videoSize
+});
+
+export const serializeRecording = (recording: TrackingRecording): string =>
+    [JSON.stringify(recording.header), ...recording.frames.map(serializeFrame)].join('\n') + '\n';
+
+/**
+ * Parses a recording file. Throws an Error naming the offending line if the file is malformed.
+ */
+export const parseRecording = (text: string): TrackingRecording => {
+    const lines = text.split('\n').filter(line => line.trim().length > 0);
+    if (lines.length === 0) throw new Error('Recording is empty');
+
+    const parseLine = (line: string, index: number) => {
+        try {
+            return JSON.parse(line);
+        } catch {
+            throw new Error(`Recording line ${index + 1} is not valid JSON`);
+        }
+    };
+
+    const header = parseLine(lines[0], 0) as RecordingHeader;
+    if (header.format !== RECORDING_FORMAT) throw new Error('Not a parallax tracking recording');
+    if (header.version > RECORDING_VERSION) {
+        throw new Error(`Recording version ${header.version} is newer than supported (${RECORDING_VERSION})`);
+    }
+
+    const frames: RecordedFrame[] = lines.slice(1).map((line, i) => {
+        const raw = parseLine(line, i + 1);
+        if (typeof raw.t !== 'number' || typeof raw.face !== 'object' || raw.face === null) {
+            throw new Error(`Recording line ${i + 2} is missing "t" or "face"`);
+        }
+        // Version 1 stored a single, unlabeled hand
+        const rawHands = header.version < 2 ? (raw.hand ? [{handedness: 'right', ...raw.hand}] : []) : raw.hands ?? [];
+        return {
+            t: raw.t,
+            face: raw.face,
+            hands: rawHands.map((hand: Omit<HandData, 'landmarks'> & { landmarks?: Triple[] }) => ({
+                ...hand,
+                landmarks: unpackLandmarks(hand.landmarks ?? [])
+            })),
+            faceLandmarks: raw.faceLandmarks && unpackLandmarks(raw.faceLandmarks),
+            faceBlendshapes: typeof raw.faceBlendshapes === 'object' && raw.faceBlendshapes !== null
+                ? raw.faceBlendshapes
+                : undefined,
+            videoSize: raw.videoSize
+        };
+    });
+
+    // Frames must be in time order for seeking
+    frames.sort((a, b) => a.t - b.t);
+
+    return {header, frames, durationMs: frames.length > 0 ? frames[frames.length - 1].t : 0};
+};
+
+/**
+ * Collects frames while recording is on. Frames pushed while stopped are ignored.
+ */
+export const createTrackingRecorder = () => {
+    let frames: RecordedFrame[] = [];
+    let startTime: number | null = null;
+    let source: TrackingSourceKind = 'mediapipe';
+    let recording = false;
+
+    return {
+        isRecording: () => recording,
+        frameCount: () => frames.length,
+        start: (kind: TrackingSourceKind) => {
+            frames = [];
+            startTime = null;
+            source = kind;
+            recording = true;
+        },
+        push: (frame: TrackingFrame) => {
+            if (!recording) return;
+            if (startTime === null) startTime = frame.face.timestamp;
+
+            // Store the pose without its absolute timestamp; `t` replaces it
+            const {x, y, z, detected} = frame.face;
+            frames.push({
+                t: frame.face.timestamp - startTime,
+                face: {x, y, z, detected},
+                hands: frame.hands,
+                faceLandmarks: frame.faceLandmarks,
+                faceBlendshapes: frame.faceBlendshapes,
+                videoSize: frame.videoSize
+            });
+        },
+        stop: (): TrackingRecording => {
+            recording = false;
+            return {
+                header: {
+                    format: RECORDING_FORMAT,
+                    version: RECORDING_VERSION,
+                    source,
+                    createdAt: new Date().toISOString()
+                },
+                frames,
+                durationMs: frames.length > 0 ? frames[frames.length - 1].t : 0
+            };
+        },
+    };
+};
+
+export type TrackingRecorder = ReturnType<typeof createTrackingRecorder>;
@@ -0,0 +1,142 @@
+import {ViewpointSource} from '../utils/faceGeometry';
+import {createFrameProcessor} from './frameProcessor';
+import {RecordedFrame, TrackingRecording} from './recording';
+import {Handedness, TrackingFrame, TrackingSource} from './types';
+
+export interface ReplayState {
+    playing: boolean;
+    positionMs: number;
+    durationMs: number;
+    speed: number;
+}
+
+export interface ReplayControls {
+    play: () => void;
+    pause: () => void;
+    seek: (positionMs: number) => void;
+    setSpeed: (speed: number) => void;
+    getState: () => ReplayState;
+}
+
+export type ReplaySource = TrackingSource & ReplayControls;
+
+/**
+ * Plays a recorded session back in place of the webcam.
+ * Frames with landmarks are re-processed (gesture analysis, head geometry), so tuning thresholds or the
+ * viewpoint takes effect on replay. Gesture timing uses recording time, so results don't depend on speed.
+ */
+export const createReplaySource = (
+    recording: TrackingRecording,
+    getViewpoint: () => ViewpointSource
+): ReplaySource => {
+    const {frames, durationMs} = recording;
+    const processor = createFrameProcessor(getViewpoint);
+
+    let requestId = 0;
+    let playing = false;
+    let speed = 1;
+    let positionMs = 0;
+    let nextIndex = 0; // First frame not emitted yet
+    let emit: ((frame: TrackingFrame) => void) | null = null;
+
+    const replayFrame = (frame: RecordedFrame, now: number): TrackingFrame => {
+        const detectedHands = frame.hands
+            .filter(hand => hand.landmarks.length > 0)
+            .map(({landmarks, handedness}) => ({landmarks, handedness}));
+
+        // Synthetic recordings (mouse/keyboard) have no landmarks: play them back verbatim
+        if (!frame.faceLandmarks && detectedHands.length === 0) {
+            return {face: {...frame.face, timestamp: now}, hands: frame.hands};
+        }
+
+        const processed = processor.process({
+            timestamp: frame.t,
+            videoSize: frame.videoSize ?? {width: 640, height: 480},
+            faceLandmarks: frame.faceLandmarks ?? null,
+            faceBlendshapes: frame.faceBlendshapes ?? null,
+            hands: detectedHands.length > 0 ? detectedHands : null
+        });
+
+        // Head filter runs on the live clock
+        const face = frame.faceLandmarks
+            ? {...processed.face, timestamp: now}
+            : {...frame.face, timestamp: now};
+        // With face controls on, the head-aimed hand replaces the recorded hands
+        const hands = detectedHands.length > 0 || processed.faceControls ? processed.hands : frame.hands;
+        return {...processed, face, hands};
+    };
+
+    // Emit everything up to positionMs. Only the newest frame is sent, but a shot in a skipped frame is kept.
+    const advance = (now: number) => {
+        let latest: TrackingFrame | null = null;
+        const fired = new Set<Handedness>();
+
+        while (nextIndex < frames.length && frames[nextIndex].t <= positionMs) {
+            latest = replayFrame(frames[nextIndex], now);
+            latest.hands.forEach(hand => hand.isFiring && fired.add(hand.handedness));
+            nextIndex++;
+        }
+
+        if (latest && emit) {
+            emit({
+                ...latest,
+                hands: latest.hands.map(hand => fired.has(hand.handedness) ? {...hand, isFiring: true} : hand)
+            });
+        }
+    };
+
+    let lastTick = 0;
+    const loop = () => {
+        const now = performance.now();
+        if (playing) {
+            positionMs = Math.min(durationMs, positionMs + (now - lastTick) * speed);
+            advance(now);
+            if (positionMs >= durationMs) playing = false; // Stop at the end
+        }
+        lastTick = now;
+        requestId = requestAnimationFrame(loop);
+    };
+
+    const seek = (target: number) => {
+        positionMs = Math.max(0, Math.min(durationMs, target));
+        // Gesture history doesn't carry across a jump
+        processor.reset();
+        nextIndex = frames.findIndex(f => f.t >= positionMs);
+        if (nextIndex === -1) nextIndex = frames.length;
+
+        // Show the frame at the new position right away, even while paused
+        if (nextIndex < frames.length && emit) {
+            emit(replayFrame(frames[nextIndex], performance.now()));
+            nextIndex++;
+        }
+    };
+
+    return {
+        kind: 'replay',
+        start: async (onFrame) => {
+            if (frames.length === 0) throw new Error('Recording has no frames');
+            emit = onFrame;
+            lastTick = performance.now();
+            seek(0);
+            playing = true;
+            requestId = requestAnimationFrame(loop);
+        },
+        stop: () => {
+            if (requestId) cancelAnimationFrame(requestId);
+            playing = false;
+            emit = null;
+        },
+        play: () => {
+            if (positionMs >= durationMs) seek(0); // Restart from the beginning
+            playing = true;
+        },
+        pause: () => {
+            playing = false;
+        },
+        seek,
+        setSpeed: (value) => {
+            speed = Math.max(0.05, value);
+        },
+        getState: () => ({playing, positionMs, durationMs, speed}),
+    };
+};
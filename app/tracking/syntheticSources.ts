@@ -0,0 +1,180 @@
+import {PARALLAX_CONSTANTS} from '../utils/parallaxUtils';
+import {FacePosition, HandData, TrackingFrame, TrackingSource, TrackingSourceKind} from './types';
+
+// Tuning parameters for synthetic input
+export const SYNTHETIC_INPUT = {
+    HEAD_RANGE_X_CM: 30,   // Mouse: head travel from the left to the right edge of the window
+    HEAD_RANGE_Y_CM: 20,   // Mouse: head travel from the bottom to the top edge of the window
+    MIN_DISTANCE_CM: 30,
+    MAX_DISTANCE_CM: 120,
+    WHEEL_CM_PER_PIXEL: 0.05,
+    KEY_HEAD_SPEED_CM: 25, // Keyboard: head speed (cm/s)
+    KEY_AIM_SPEED: 0.6,    // Keyboard: reticle speed (screen fractions/s)
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * True for events aimed at UI controls (buttons, text fields...), which shouldn't double as game input.
+ */
+export const isInteractiveTarget = (target: EventTarget | null) =>
+    target instanceof Element && !!target.closest('button, input, select, textarea, label, a');
+
+/**
+ * Builds a HandData that aims at a point given in screen fractions (u: 0 left -> 1 right, v: 0 top -> 1 bottom).
+ * indexTipPos is in un-mirrored webcam coordinates, so u is flipped (see calculateAimPoint).
+ */
+const createSyntheticHand = (u: number, v: number, isFiring: boolean): HandData => {
+    const tip = {x: 1 - u, y: v, z: 0};
+    return {
+        handedness: 'right', // Single-player input: always the right-hand slot
+        landmarks: [],
+        isGunPose: true,
+        isFiring,
+        wristPos: tip,
+        indexTipPos: tip
+    };
+};
+
+/**
+ * Shared plumbing: runs `tick` once per animation frame and emits its result.
+ */
+const createLoopSource = (
+    kind: TrackingSourceKind,
+    tick: (timeMs: number, dtSec: number) => TrackingFrame,
+    attach: () => () => void // Installs listeners, returns the detach function
+): TrackingSource => {
+    let requestId = 0;
+    let detach: (() => void) | null = null;
+
+    return {
+        kind,
+        start: async (onFrame) => {
+            detach = attach();
+            let lastTime = performance.now();
+
+            const loop = () => {
+                const now = performance.now();
+                onFrame(tick(now, (now - lastTime) / 1000));
+                lastTime = now;
+                requestId = requestAnimationFrame(loop);
+            };
+            requestId = requestAnimationFrame(loop);
+        },
+        stop: () => {
+            if (requestId) cancelAnimationFrame(requestId);
+            detach?.();
+            detach = null;
+        },
+    };
+};
+
+/**
+ * Mouse as head: moving the pointer moves the viewpoint, the wheel changes distance.
+ * The reticle follows the pointer and a click fires.
+ */
+export const createMouseSource = (): TrackingSource => {
+    let u = 0.5;
+    let v = 0.5;
+    let inside = false;
+    let distance = PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM;
+    let pendingShot = false;
+
+    const onMove = (e: PointerEvent) => {
+        u = e.clientX / window.innerWidth;
+        v = e.clientY / window.innerHeight;
+        inside = true;
+    };
+    const onLeave = () => {
+        inside = false;
+    };
+    const onDown = (e: PointerEvent) => {
+        if (e.button === 0 && !isInteractiveTarget(e.target)) pendingShot = true;
+    };
+    const onWheel = (e: WheelEvent) => {
+        distance = clamp(
+            distance + e.deltaY * SYNTHETIC_INPUT.WHEEL_CM_PER_PIXEL,
+            SYNTHETIC_INPUT.MIN_DISTANCE_CM,
+            SYNTHETIC_INPUT.MAX_DISTANCE_CM
+        );
+    };
+
+    return createLoopSource('mouse', (timeMs) => {
+        const face: FacePosition = {
+            x: (u - 0.5) * SYNTHETIC_INPUT.HEAD_RANGE_X_CM,
+            y: -(v - 0.5) * SYNTHETIC_INPUT.HEAD_RANGE_Y_CM,
+            z: distance,
+            detected: true,
+            timestamp: timeMs
+        };
+
+        // Fire exactly one frame per click
+        const isFiring = pendingShot;
+        pendingShot = false;
+
+        return {face, hands: inside ? [createSyntheticHand(u, v, isFiring)] : []};
+    }, () => {
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerdown', onDown);
+        window.addEventListener('wheel', onWheel);
+        document.documentElement.addEventListener('pointerleave', onLeave);
+        return () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerdown', onDown);
+            window.removeEventListener('wheel', onWheel);
+            document.documentElement.removeEventListener('pointerleave', onLeave);
+        };
+    });
+};
+
+/**
+ * Keyboard: WASD moves the head, Q/E changes distance, arrow keys move the reticle, Space fires.
+ */
+export const createKeyboardSource = (): TrackingSource => {
+    const held = new Set<string>();
+    const head = {x: 0, y: 0, z: PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM};
+    const aim = {u: 0.5, v: 0.5};
+    let pendingShot = false;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (isInteractiveTarget(e.target)) return; // Typing initials etc.
+        if (e.code === 'Space' && !e.repeat) pendingShot = true;
+        held.add(e.code);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+        held.delete(e.code);
+    };
+    const onBlur = () => held.clear();
+
+    // -1, 0 or 1 depending on which of the two keys is held
+    const axis = (negative: string, positive: string) =>
+        (held.has(positive) ? 1 : 0) - (held.has(negative) ? 1 : 0);
+
+    return createLoopSource('keyboard', (timeMs, dtSec) => {
+        const headStep = SYNTHETIC_INPUT.KEY_HEAD_SPEED_CM * dtSec;
+        head.x = clamp(head.x + axis('KeyA', 'KeyD') * headStep, -SYNTHETIC_INPUT.HEAD_RANGE_X_CM / 2, SYNTHETIC_INPUT.HEAD_RANGE_X_CM / 2);
+        head.y = clamp(head.y + axis('KeyS', 'KeyW') * headStep, -SYNTHETIC_INPUT.HEAD_RANGE_Y_CM / 2, SYNTHETIC_INPUT.HEAD_RANGE_Y_CM / 2);
+        head.z = clamp(head.z + axis('KeyQ', 'KeyE') * headStep, SYNTHETIC_INPUT.MIN_DISTANCE_CM, SYNTHETIC_INPUT.MAX_DISTANCE_CM);
+
+        const aimStep = SYNTHETIC_INPUT.KEY_AIM_SPEED * dtSec;
+        aim.u = clamp(aim.u + axis('ArrowLeft', 'ArrowRight') * aimStep, 0, 1);
+        aim.v = clamp(aim.v + axis('ArrowUp', 'ArrowDown') * aimStep, 0, 1);
+
+        const isFiring = pendingShot;
+        pendingShot = false;
+
+        return {
+            face: {...head, detected: true, timestamp: timeMs},
+            hands: [createSyntheticHand(aim.u, aim.v, isFiring)]
+        };
+    }, () => {
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        window.addEventListener('blur', onBlur);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            window.removeEventListener('blur', onBlur);
+        };
+    });
+};
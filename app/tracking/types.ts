@@ -0,0 +1,80 @@
+import {NormalizedLandmark} from '@mediapipe/tasks-vision';
+import {PARALLAX_CONSTANTS} from '../utils/parallaxUtils';
+import {GestureResult} from './gestures';
+import {FaceBlendshapes, FaceControlResult} from './faceControls';
+
+export interface FacePosition {
+    x: number; // cm, viewer's right is positive
+    y: number; // cm, up is positive
+    z: number; // cm, distance from the webcam
+    detected: boolean;
+    timestamp: number; // ms (performance.now) of the video frame this pose was measured on
+}
+
+export const INITIAL_FACE_POSITION: FacePosition = {
+    x: 0,
+    y: 0,
+    z: PARALLAX_CONSTANTS.DEFAULT_HEAD_DISTANCE_CM,
+    detected: false,
+    timestamp: 0
+};
+
+// The user's actual hand. Up to two hands are tracked: two players sharing the screen, or one dual-wielding.
+export type Handedness = 'left' | 'right';
+
+export const HANDEDNESS: Handedness[] = ['left', 'right'];
+
+/**
+ * One hand as found by the landmarker, before gesture analysis.
+ */
+export interface DetectedHand {
+    landmarks: NormalizedLandmark[];
+    handedness: Handedness;
+}
+
+export interface HandData {
+    handedness: Handedness;
+    landmarks: NormalizedLandmark[]; // Empty for synthetic sources (mouse, keyboard)
+    isGunPose: boolean;
+    isFiring: boolean;
+    wristPos: { x: number, y: number, z: number };
+    indexTipPos: { x: number, y: number, z: number }; // Normalized webcam image coordinates (un-mirrored)
+}
+
+/**
+ * Intermediate values for the diagnostics panel (not recorded).
+ */
+export interface FrameDiagnostics {
+    inferenceMs?: { face: number; hand: number }; // 0 for a model that was skipped on this frame
+    gestures?: { handedness: Handedness; gesture: GestureResult }[]; // Per hand; undefined: hands skipped
+}
+
+/**
+ * One tracking update: where the viewer's head is and what the hands are doing.
+ */
+export interface TrackingFrame {
+    face: FacePosition;
+    hands: HandData[]; // At most one per handedness
+
+    // Raw face data, kept so recordings can be re-processed (e.g. with another viewpoint)
+    faceLandmarks?: NormalizedLandmark[];
+    faceBlendshapes?: FaceBlendshapes;
+    videoSize?: { width: number; height: number };
+
+    // Set when face controls drive the frame (the hands are then a single head-aimed hand)
+    faceControls?: FaceControlResult;
+
+    diagnostics?: FrameDiagnostics;
+}
+
+export type TrackingSourceKind = 'mediapipe' | 'mouse' | 'keyboard' | 'replay';
+
+/**
+ * Anything that can drive the scene: webcam + MediaPipe, or synthetic input for machines without a camera.
+ * `start` resolves once frames are flowing and rejects if the source can't run (e.g. no webcam).
+ */
+export interface TrackingSource {
+    kind: TrackingSourceKind;
+    start: (onFrame: (frame: TrackingFrame) => void) => Promise<void>;
+    stop: () => void;
+}
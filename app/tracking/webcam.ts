@@ -0,0 +1,117 @@
+/**
+ * Webcam selection + opening, with getUserMedia failures sorted into what the user can do about them.
+ */
+
+export interface WebcamSettings {
+    deviceId: string | null; // null: the browser's default camera
+    width: number;           // Requested capture size (the camera picks the closest it supports)
+    height: number;
+    frameRate: number;
+}
+
+// Landmarks are found on a downscaled image, so higher resolutions mostly cost bandwidth, not accuracy
+export const WEBCAM_RESOLUTIONS: { width: number; height: number }[] = [
+    {width: 320, height: 240},
+    {width: 640, height: 480},
+    {width: 1280, height: 720},
+    {width: 1920, height: 1080},
+];
+
+export const WEBCAM_FRAME_RATES = [15, 24, 30, 60];
+
+export const DEFAULT_WEBCAM_SETTINGS: WebcamSettings = {
+    deviceId: null,
+    width: 640,
+    height: 480,
+    frameRate: 30,
+};
+
+// 'denied': permission refused; 'notFound': no (matching) camera; 'inUse': another app holds it;
+// 'unsupported': no camera API (e.g. page not served over HTTPS); 'failed': anything else
+export type WebcamErrorKind = 'denied' | 'notFound' | 'inUse' | 'unsupported' | 'failed';
+
+export type WebcamError = Error & { webcamError: WebcamErrorKind };
+
+const WEBCAM_ERROR_MESSAGES: Record<Exclude<WebcamErrorKind, 'failed'>, string> = {
+    denied: 'Camera access was denied',
+    notFound: 'No camera found',
+    inUse: 'The camera is in use by another application',
+    unsupported: 'Camera access is not available in this browser (the page must be served over HTTPS or localhost)',
+};
+
+const webcamError = (kind: WebcamErrorKind, message: string): WebcamError =>
+    Object.assign(new Error(message), {webcamError: kind});
+
+// DOMException names from getUserMedia
+const classify = (err: unknown): WebcamError => {
+    const name = err instanceof Error ? err.name : '';
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return webcamError('denied', WEBCAM_ERROR_MESSAGES.denied);
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return webcamError('notFound', WEBCAM_ERROR_MESSAGES.notFound);
+        case 'NotReadableError':
+        case 'AbortError':
+            return webcamError('inUse', WEBCAM_ERROR_MESSAGES.inUse);
+        default:
+            return webcamError('failed', `Camera failed to start: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Which of the webcam failures `err` is, or null if it isn't one (e.g. MediaPipe failed to load).
+ */
+export const getWebcamErrorKind = (err: unknown): WebcamErrorKind | null =>
+    err instanceof Error && 'webcamError' in err ? (err as WebcamError).webcamError : null;
+
+const request = (settings: WebcamSettings) => navigator.mediaDevices.getUserMedia({
+    video: {
+        // Ideal, not exact: a camera that can't do the requested mode still opens in its nearest one
+        ...(settings.deviceId ? {deviceId: {exact: settings.deviceId}} : {}),
+        width: {ideal: settings.width},
+        height: {ideal: settings.height},
+        frameRate: {ideal: settings.frameRate},
+    }
+});
+
+/**
+ * Opens the selected camera. A remembered camera that's no longer connected falls back to the default one.
+ * Rejects with a WebcamError.
+ */
+export const openWebcam = async (settings: WebcamSettings): Promise<MediaStream> => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        throw webcamError('unsupported', WEBCAM_ERROR_MESSAGES.unsupported);
+    }
+    try {
+        return await request(settings);
+    } catch (err) {
+        const error = classify(err);
+        if (error.webcamError !== 'notFound' || !settings.deviceId) throw error;
+
+        console.warn('Selected camera not available, using the default camera:', err);
+        try {
+            return await request({...settings, deviceId: null});
+        } catch (fallbackErr) {
+            throw classify(fallbackErr);
+        }
+    }
+};
+
+export interface WebcamDevice {
+    deviceId: string;
+    label: string;
+}
+
+/**
+ * Connected cameras. Browsers only reveal labels once camera permission was granted, so unnamed ones
+ * are numbered.
+ */
+export const listWebcams = async (): Promise<WebcamDevice[]> => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter(device => device.kind === 'videoinput' && device.deviceId)
+        .map((device, i) => ({deviceId: device.deviceId, label: device.label || `Camera ${i + 1}`}));
+};
@@ -0,0 +1,30 @@
+import {createPersistentStore} from '../utils/persistentStore';
+import {DEFAULT_WEBCAM_SETTINGS, WEBCAM_FRAME_RATES, WEBCAM_RESOLUTIONS, WebcamSettings} from './webcam';
+
+/**
+ * Selected camera + capture mode, persisted in localStorage. Changing it restarts the webcam source live.
+ */
+
+const store = createPersistentStore<WebcamSettings>({
+    key: 'parallax-window.webcam-settings',
+    defaults: DEFAULT_WEBCAM_SETTINGS,
+    // Only modes offered in the picker are restored; anything else falls back to the defaults
+    sanitize: stored => {
+        const resolution = WEBCAM_RESOLUTIONS.find(({width, height}) => width === stored.width && height === stored.height)
+            ?? DEFAULT_WEBCAM_SETTINGS;
+        return {
+            deviceId: typeof stored.deviceId === 'string' && stored.deviceId ? stored.deviceId : null,
+            width: resolution.width,
+            height: resolution.height,
+            frameRate: WEBCAM_FRAME_RATES.find(fps => fps === stored.frameRate) ?? DEFAULT_WEBCAM_SETTINGS.frameRate,
+        };
+    },
+});
+
+export const getWebcamSettings = store.get;
+export const updateWebcamSettings = store.update;
+
+/**
+ * React view of the webcam settings (defaults during server rendering).
+ */
+export const useWebcamSettings = store.useValue;
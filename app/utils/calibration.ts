@@ -0,0 +1,99 @@
+import {CameraCalibration, DEFAULT_CAMERA_CALIBRATION, DISPLAY_CALIBRATION, webcamToScreen} from './parallaxUtils';
+
+/**
+ * Calibration profile: the physical screen size plus where the webcam sits relative to it.
+ * Solved by the calibration wizard from head positions captured at known places in front of the screen.
+ */
+
+export interface CalibrationProfile extends CameraCalibration {
+    screenWidthCm: number;  // Visible display area
+    screenHeightCm: number;
+    calibratedAt: string | null; // ISO date; null: defaults (webcam assumed at the screen center)
+}
+
+export const DEFAULT_CALIBRATION_PROFILE: CalibrationProfile = {
+    ...DEFAULT_CAMERA_CALIBRATION,
+    screenWidthCm: DISPLAY_CALIBRATION.SCREEN_WIDTH_CM,
+    screenHeightCm: DISPLAY_CALIBRATION.SCREEN_HEIGHT_CM,
+    calibratedAt: null,
+};
+
+export const CALIBRATION_LIMITS = {
+    MIN_SCREEN_CM: 10,
+    MAX_SCREEN_CM: 500,
+    MAX_TILT_DEG: 30,
+    TILT_STEP_DEG: 0.1,
+    MIN_SCALE: 0.5, // A solved scale outside this range means the samples were bad
+    MAX_SCALE: 2,
+};
+
+type Point3 = { x: number; y: number; z: number };
+
+/**
+ * One wizard capture: the averaged head position the webcam measured, and where the head really was
+ * (screen cm from the center; null for an axis the step doesn't pin down).
+ */
+export interface CalibrationSample {
+    measured: Point3;
+    target: { x: number | null; y: number | null; z: number | null };
+}
+
+export interface CalibrationResult {
+    calibration: CameraCalibration;
+    rmsErrorCm: number; // How far the calibrated samples are from their targets
+}
+
+// Solves the 3x3 system m * u = v (Cramer's rule); null when singular
+const solve3 = (m: number[][], v: number[]): number[] | null => {
+    const det = (a: number[][]) =>
+        a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1])
+        - a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0])
+        + a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+    const d = det(m);
+    if (Math.abs(d) < 1e-9) return null;
+    return [0, 1, 2].map(col => det(m.map((row, i) => row.map((value, j) => (j === col ? v[i] : value)))) / d);
+};
+
+/**
+ * Least-squares fit of the webcam's offset (in the screen plane), tilt and scale to the samples.
+ * For a fixed tilt the model is linear in (offset x, offset y, scale), so every tilt in range is solved
+ * directly and the best fit wins. Throws when the samples can't determine the scale.
+ */
+export const solveCalibration = (samples: CalibrationSample[]): CalibrationResult => {
+    let best: CalibrationResult | null = null;
+
+    for (let tiltDeg = -CALIBRATION_LIMITS.MAX_TILT_DEG; tiltDeg <= CALIBRATION_LIMITS.MAX_TILT_DEG + 1e-9;
+         tiltDeg += CALIBRATION_LIMITS.TILT_STEP_DEG) {
+        // Samples rotated into screen axes (unscaled, no offset)
+        const rows: { a: number[]; b: number }[] = [];
+        samples.forEach(({measured, target}) => {
+            const r = webcamToScreen(measured, {cameraOffsetCm: {x: 0, y: 0, z: 0}, cameraTiltDeg: tiltDeg, distanceScale: 1});
+            if (target.x !== null) rows.push({a: [1, 0, r.x], b: target.x});
+            if (target.y !== null) rows.push({a: [0, 1, r.y], b: target.y});
+            if (target.z !== null) rows.push({a: [0, 0, r.z], b: target.z}); // Webcam assumed in the screen plane
+        });
+
+        // Normal equations
+        const ata = [0, 1, 2].map(i => [0, 1, 2].map(j => rows.reduce((sum, row) => sum + row.a[i] * row.a[j], 0)));
+        const atb = [0, 1, 2].map(i => rows.reduce((sum, row) => sum + row.a[i] * row.b, 0));
+        const u = solve3(ata, atb);
+        if (!u) continue;
+
+        const [x, y, scale] = u;
+        const sumSq = rows.reduce((sum, row) => sum + (row.a[0] * x + row.a[1] * y + row.a[2] * scale - row.b) ** 2, 0);
+        const rmsErrorCm = Math.sqrt(sumSq / rows.length);
+        if (!best || rmsErrorCm < best.rmsErrorCm) {
+            best = {
+                calibration: {cameraOffsetCm: {x, y, z: 0}, cameraTiltDeg: Math.round(tiltDeg * 10) / 10, distanceScale: scale},
+                rmsErrorCm
+            };
+        }
+    }
+
+    if (!best) throw new Error('Not enough calibration points to solve for the webcam position');
+    const {distanceScale} = best.calibration;
+    if (distanceScale < CALIBRATION_LIMITS.MIN_SCALE || distanceScale > CALIBRATION_LIMITS.MAX_SCALE) {
+        throw new Error(`Solved scale ${distanceScale.toFixed(2)} is implausible: redo the captures`);
+    }
+    return best;
+};
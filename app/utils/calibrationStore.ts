@@ -0,0 +1,50 @@
+import {createPersistentStore} from './persistentStore';
+import {Json} from './validate';
+import {CALIBRATION_LIMITS, CalibrationProfile, DEFAULT_CALIBRATION_PROFILE} from './calibration';
+
+/**
+ * The calibration profile of this machine (screen + webcam placement), persisted in localStorage.
+ */
+
+const finite = (value: unknown, min = -Infinity, max = Infinity): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// A stored profile is used only if every field is plausible; otherwise the defaults
+const sanitize = (stored: Json): CalibrationProfile => {
+    const {MIN_SCREEN_CM, MAX_SCREEN_CM, MAX_TILT_DEG, MIN_SCALE, MAX_SCALE} = CALIBRATION_LIMITS;
+    const {screenWidthCm, screenHeightCm, cameraTiltDeg, distanceScale, calibratedAt} = stored;
+    const offset = (stored.cameraOffsetCm ?? {}) as Json;
+    const {x, y, z} = offset;
+    const valid = finite(screenWidthCm, MIN_SCREEN_CM, MAX_SCREEN_CM)
+        && finite(screenHeightCm, MIN_SCREEN_CM, MAX_SCREEN_CM)
+        && finite(x) && finite(y) && finite(z)
+        && finite(cameraTiltDeg, -MAX_TILT_DEG, MAX_TILT_DEG)
+        && finite(distanceScale, MIN_SCALE, MAX_SCALE);
+    if (!valid) return DEFAULT_CALIBRATION_PROFILE;
+    return {
+        screenWidthCm,
+        screenHeightCm,
+        cameraOffsetCm: {x, y, z},
+        cameraTiltDeg,
+        distanceScale,
+        calibratedAt: typeof calibratedAt === 'string' ? calibratedAt : null,
+    };
+};
+
+const store = createPersistentStore<CalibrationProfile>({
+    key: 'parallax-window.calibration',
+    defaults: DEFAULT_CALIBRATION_PROFILE,
+    sanitize,
+});
+
+export const getCalibration = store.get;
+
+export const saveCalibration = (profile: Omit<CalibrationProfile, 'calibratedAt'>) =>
+    store.set({...profile, calibratedAt: new Date().toISOString()});
+
+export const resetCalibration = () => store.set(DEFAULT_CALIBRATION_PROFILE);
+
+/**
+ * React view of the calibration profile (defaults during server rendering).
+ */
+export const useCalibration = store.useValue;
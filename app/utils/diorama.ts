@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import {GLTFLoader} from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+/**
+ * Window mode: a user-supplied glTF / GLB model shown in the parallax room instead of the game.
+ * Loaded from a `public/` path (`?model=/models/chair.glb`) or from dropped files, then scaled to fit the room.
+ */
+
+export const DIORAMA_DEFAULTS = {
+    FIT_MARGIN: 0.9, // Fraction of the room the model may fill
+};
+
+// Where a model comes from: a same-origin path, or dropped files (a .gltf plus its .bin / textures, or one .glb)
+export type DioramaSource =
+    | { kind: 'url'; url: string }
+    | { kind: 'files'; files: File[] };
+
+export interface Diorama {
+    name: string;
+    object: THREE.Object3D;
+    bounds: THREE.Box3; // Of the model as loaded, before fitting
+}
+
+export interface RoomSize {
+    width: number;
+    height: number;
+    depth: number; // Behind the screen plane (Z=0 to Z=-depth)
+}
+
+/**
+ * Lighting presets: the same-named environment map (public/hdri/<name>.exr) plus fill / key lights.
+ * 'city' is the game's own lighting.
+ */
+export type LightingPreset = 'city' | 'studio' | 'sunset' | 'night';
+
+export const LIGHTING_PRESETS: Record<LightingPreset, {
+    background: string;
+    ambient: number;
+    key: number; // Point light above the viewer's right shoulder (casts shadows)
+}> = {
+    city: {background: '#101010', ambient: 0.2, key: 1.5},
+    studio: {background: '#1c1c1e', ambient: 0.4, key: 1.2},
+    sunset: {background: '#1a0f0a', ambient: 0.15, key: 1.0},
+    night: {background: '#05060a', ambient: 0.05, key: 0.5},
+};
+
+export const LIGHTING_PRESET_NAMES = Object.keys(LIGHTING_PRESETS) as LightingPreset[];
+
+const MODEL_EXTENSION = /\.(glb|gltf)$/i;
+const MODEL_PATH = /^\/[\w\-./]+\.(glb|gltf)$/i;
+
+/**
+ * Paths accepted from the URL: same-origin, under `public/`, no parent directories.
+ */
+export const isValidModelPath = (path: string) => MODEL_PATH.test(path) && !path.includes('..');
+
+export const isModelFile = (file: File) => MODEL_EXTENSION.test(file.name);
+
+const baseName = (url: string) => decodeURIComponent(url.split(/[\\/]/).pop() ?? url);
+
+const finish = (name: string, object: THREE.Object3D): Diorama => {
+    object.traverse(child => {
+        if ((child as THREE.Mesh).isMesh) {
+            child.castShadow = true;
+            child.receiveShadow = true;
+        }
+    });
+    object.updateMatrixWorld(true);
+    return {name, object, bounds: new THREE.Box3().setFromObject(object)};
+};
+
+/**
+ * Loads a diorama. For dropped files, the .gltf's references (buffers, textures) are resolved by file name
+ * among the other dropped files.
+ */
+export const loadDiorama = async (source: DioramaSource): Promise<Diorama> => {
+    if (source.kind === 'url') {
+        if (!isValidModelPath(source.url)) throw new Error(`Invalid model path "${source.url}"`);
+        const gltf = await new GLTFLoader().loadAsync(source.url).catch(err => {
+            throw new Error(`Model "${source.url}" couldn't be loaded (${err instanceof Error ? err.message : err})`);
+        });
+        return finish(baseName(source.url), gltf.scene);
+    }
+
+    const main = source.files.find(isModelFile);
+    if (!main) throw new Error('Drop a .glb file, or a .gltf with its .bin and texture files');
+
+    const urls = new Map(source.files.map(file => [file.name, URL.createObjectURL(file)]));
+    const manager = new THREE.LoadingManager();
+    manager.setURLModifier(url => urls.get(baseName(url)) ?? url);
+    try {
+        const gltf = await new GLTFLoader(manager).loadAsync(urls.get(main.name)!);
+        return finish(main.name, gltf.scene);
+    } catch (err) {
+        throw new Error(`"${main.name}" couldn't be loaded (${err instanceof Error ? err.message : err})`);
+    } finally {
+        urls.forEach(url => URL.revokeObjectURL(url));
+    }
+};
+
+/**
+ * Uniform scale + offset that fits the model's bounds into the room: centered left-right and front-back,
+ * standing on the floor.
+ */
+export const fitToRoom = (bounds: THREE.Box3, room: RoomSize, margin = DIORAMA_DEFAULTS.FIT_MARGIN) => {
+    const size = bounds.getSize(new THREE.Vector3());
+    const center = bounds.getCenter(new THREE.Vector3());
+    const scale = margin * Math.min(
+        room.width / Math.max(size.x, 1e-6),
+        room.height / Math.max(size.y, 1e-6),
+        room.depth / Math.max(size.z, 1e-6)
+    );
+
+    const position: [number, number, number] = [
+        -center.x * scale,
+        -room.height / 2 - bounds.min.y * scale,
+        -room.depth / 2 - center.z * scale,
+    ];
+    return {scale, position};
+};
+
+/**
+ * Frees a replaced model's GPU resources.
+ */
+export const disposeDiorama = ({object}: Diorama) => {
+    object.traverse(child => {
+        const mesh = child as THREE.Mesh;
+        if (!mesh.isMesh) return;
+        mesh.geometry.dispose();
+        (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach(material => {
+            Object.values(material).forEach(value => {
+                if (value instanceof THREE.Texture) value.dispose();
+            });
+            material.dispose();
+        });
+    });
+};
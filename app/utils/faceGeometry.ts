@@ -0,0 +1,124 @@
+import {DISPLAY_CALIBRATION} from './parallaxUtils';
+
+interface Landmark {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// MediaPipe Face Mesh indices (478 points with iris refinement).
+// "Left"/"Right" are from the subject's point of view.
+export const FACE_LANDMARKS = {
+    NOSE_TIP: 1,
+    RIGHT_IRIS_CENTER: 468, // 468-472
+    LEFT_IRIS_CENTER: 473,  // 473-477
+    RIGHT_EYE_OUTER: 33,
+    RIGHT_EYE_INNER: 133,
+    LEFT_EYE_OUTER: 263,
+    LEFT_EYE_INNER: 362,
+    RIGHT_FACE_EDGE: 234,
+    LEFT_FACE_EDGE: 454,
+};
+
+// Average adult anthropometrics used as the "known size" for distance estimation
+export const FACE_METRICS = {
+    IPD_CM: 6.3,         // Inter-pupillary distance
+    FACE_WIDTH_CM: 14.0, // Cheek-to-cheek width between landmarks 234 and 454
+};
+
+/**
+ * Which point of the face the perspective is rendered from.
+ * Eyes are the geometrically correct choice; the nose tip drifts when the head tilts or turns.
+ * 'leftEye' / 'rightEye' are the user's own eyes (use the dominant one for monocular viewing).
+ */
+export type ViewpointSource = 'eyeMidpoint' | 'leftEye' | 'rightEye' | 'nose';
+
+export const VIEWPOINT_SOURCES: ViewpointSource[] = ['eyeMidpoint', 'leftEye', 'rightEye', 'nose'];
+export const DEFAULT_VIEWPOINT: ViewpointSource = 'eyeMidpoint';
+
+const midpoint = (a: Landmark, b: Landmark): Landmark => ({
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    z: (a.z + b.z) / 2,
+});
+
+const hasIrisLandmarks = (landmarks: Landmark[]) => landmarks.length > FACE_LANDMARKS.LEFT_IRIS_CENTER;
+
+/**
+ * Returns the eye centers (iris centers, or the middle of the eye corners when iris points are missing).
+ */
+export const getEyeCenters = (landmarks: Landmark[]): { left: Landmark; right: Landmark } => {
+    if (hasIrisLandmarks(landmarks)) {
+        return {
+            left: landmarks[FACE_LANDMARKS.LEFT_IRIS_CENTER],
+            right: landmarks[FACE_LANDMARKS.RIGHT_IRIS_CENTER],
+        };
+    }
+    return {
+        left: midpoint(landmarks[FACE_LANDMARKS.LEFT_EYE_OUTER], landmarks[FACE_LANDMARKS.LEFT_EYE_INNER]),
+        right: midpoint(landmarks[FACE_LANDMARKS.RIGHT_EYE_OUTER], landmarks[FACE_LANDMARKS.RIGHT_EYE_INNER]),
+    };
+};
+
+/**
+ * Picks the image-space point that represents the viewer's eye for the given source.
+ */
+export const getViewpointLandmark = (landmarks: Landmark[], source: ViewpointSource): Landmark => {
+    if (source === 'nose') return landmarks[FACE_LANDMARKS.NOSE_TIP];
+
+    const eyes = getEyeCenters(landmarks);
+    switch (source) {
+        case 'leftEye':
+            return eyes.left;
+        case 'rightEye':
+            return eyes.right;
+        default:
+            return midpoint(eyes.left, eyes.right);
+    }
+};
+
+/**
+ * Estimates the head position in centimeters relative to the webcam using a pinhole camera model.
+ * Distance comes from the apparent iris spacing (or face width as a fallback) and the webcam's
+ * horizontal field of view. The lateral position is taken at the chosen viewpoint (eye midpoint by default).
+ * Returned axes are in screen space: +X viewer's right, +Y up, +Z towards the viewer.
+ */
+export const estimateHeadPosition = (
+    landmarks: Landmark[],
+    frame: { width: number; height: number },
+    {
+        viewpoint = DEFAULT_VIEWPOINT,
+        hFovDeg = DISPLAY_CALIBRATION.WEBCAM_HFOV_DEG
+    }: { viewpoint?: ViewpointSource; hFovDeg?: number } = {}
+): { x: number; y: number; z: number } => {
+    // Focal length in pixels from horizontal FOV
+    const focalPx = (frame.width / 2) / Math.tan((hFovDeg * Math.PI / 180) / 2);
+
+    // Landmarks are normalized [0, 1] per axis, so scale by frame size before measuring
+    const pxDist = (a: Landmark, b: Landmark) =>
+        Math.hypot((a.x - b.x) * frame.width, (a.y - b.y) * frame.height);
+
+    // 1. Distance (Z)
+    // Iris centers are the most stable "ruler" on the face. Face width is used when iris points are missing.
+    let z: number;
+    const ipdPx = hasIrisLandmarks(landmarks)
+        ? pxDist(landmarks[FACE_LANDMARKS.RIGHT_IRIS_CENTER], landmarks[FACE_LANDMARKS.LEFT_IRIS_CENTER])
+        : 0;
+
+    if (ipdPx > 1) {
+        z = focalPx * FACE_METRICS.IPD_CM / ipdPx;
+    } else {
+        const facePx = pxDist(landmarks[FACE_LANDMARKS.RIGHT_FACE_EDGE], landmarks[FACE_LANDMARKS.LEFT_FACE_EDGE]);
+        z = focalPx * FACE_METRICS.FACE_WIDTH_CM / Math.max(1, facePx);
+    }
+
+    // 2. Lateral position (X, Y)
+    // Back-project the anchor through the pinhole: offset_cm = offset_px / focal_px * distance.
+    // The webcam image is NOT mirrored, so image +X is the viewer's left -> negate.
+    // Image +Y is down -> negate.
+    const anchor = getViewpointLandmark(landmarks, viewpoint);
+    const x = -((anchor.x - 0.5) * frame.width / focalPx) * z;
+    const y = -((anchor.y - 0.5) * frame.height / focalPx) * z;
+
+    return {x, y, z};
+};
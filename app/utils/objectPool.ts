@@ -0,0 +1,68 @@
+/**
+ * Fixed-size pool of preallocated objects, for per-frame effects (bullets, fragments) that would otherwise
+ * allocate and be garbage collected at 60 Hz. Items are reused in place: reset every field on acquire.
+ */
+
+// What happens when every slot is in use:
+// 'dropNewest': the new item isn't created; 'recycleOldest': the oldest live item is taken over
+export type OverflowPolicy = 'dropNewest' | 'recycleOldest';
+
+interface ObjectPoolOptions<T> {
+    size: number;
+    create: () => T;
+    overflow: OverflowPolicy;
+    onRecycle?: (item: T) => void; // Called with the old state of an item before it's taken over
+}
+
+export const createObjectPool = <T extends object>({size, create, overflow, onRecycle}: ObjectPoolOptions<T>) => {
+    const items = Array.from({length: size}, create);
+    const slotOf = new Map(items.map((item, i) => [item, i]));
+    const alive = new Array<boolean>(size).fill(false);
+    const born = new Array<number>(size).fill(0); // Acquire order, to find the oldest
+    const free = items.map((_, i) => size - 1 - i); // Stack of free slots
+    let serial = 0;
+    let live = 0;
+
+    const acquire = (): T | null => {
+        let slot = free.pop();
+        if (slot === undefined) {
+            if (overflow === 'dropNewest' || size === 0) return null;
+
+            slot = 0;
+            for (let i = 1; i < size; i++) {
+                if (born[i] < born[slot]) slot = i;
+            }
+            onRecycle?.(items[slot]);
+        } else {
+            alive[slot] = true;
+            live++;
+        }
+        born[slot] = serial++;
+        return items[slot];
+    };
+
+    const release = (item: T) => {
+        const slot = slotOf.get(item);
+        if (slot === undefined || !alive[slot]) return;
+        alive[slot] = false;
+        free.push(slot);
+        live--;
+    };
+
+    // Live items, in slot order. Releasing the current item from the callback is fine.
+    const forEach = (fn: (item: T) => void) => {
+        for (let i = 0; i < size; i++) {
+            if (alive[i]) fn(items[i]);
+        }
+    };
+
+    const clear = () => {
+        for (let i = 0; i < size; i++) {
+            if (alive[i]) release(items[i]);
+        }
+    };
+
+    return {acquire, release, forEach, clear, count: () => live, capacity: size};
+};
+
+export type ObjectPool<T extends object> = ReturnType<typeof createObjectPool<T>>;
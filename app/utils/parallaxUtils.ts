@@ -1,40 +1,207 @@
 import * as THREE from 'three';
-import {FacePosition} from '../hooks/useFaceTracking';
+import {FacePosition} from '../tracking/types';
+
+// Physical setup. Set these to match your monitor and webcam.
+// Defaults: 24" 16:9 monitor, typical laptop/USB webcam.
+export const DISPLAY_CALIBRATION = {
+    SCREEN_WIDTH_CM: 53.1,  // Visible display area width
+    SCREEN_HEIGHT_CM: 29.9, // Visible display area height
+    WEBCAM_HFOV_DEG: 60,    // Horizontal field of view of the webcam
+};
 
-// Tuning parameters matching ParallaxCamera defaults
 export const PARALLAX_CONSTANTS = {
-    SCALE_X: 30,
-    SCALE_Y: 20,
-    BASE_Z: 60,
-    Z_RANGE: 40,
-    MIN_Z: 10,
+    DEFAULT_HEAD_DISTANCE_CM: 60, // Assumed eye distance when no face is detected
+    MIN_HEAD_DISTANCE_CM: 15,     // Keep the eye in front of the screen plane
+};
+
+/**
+ * Size of the visible screen (the canvas) in world units, plus its real size in centimeters.
+ * The ratio between the two is the scale used to map the tracked head into the world.
+ */
+export interface ScreenSize {
+    width: number;
+    height: number;
+    widthCm: number;
+    heightCm: number;
+}
+
+export const DEFAULT_SCREEN_SIZE: ScreenSize = {
+    width: 40,
+    height: 22.5,
+    widthCm: DISPLAY_CALIBRATION.SCREEN_WIDTH_CM,
+    heightCm: DISPLAY_CALIBRATION.SCREEN_HEIGHT_CM,
+};
+
+/**
+ * Where the webcam really is: its offset from the screen center, how far it's pitched down, and a scale
+ * for the measured positions (corrects the assumed eye distance / field of view). From the calibration wizard.
+ */
+export interface CameraCalibration {
+    cameraOffsetCm: { x: number; y: number; z: number }; // Webcam position relative to the screen center
+    cameraTiltDeg: number; // Pitch; positive: looking down towards the viewer
+    distanceScale: number; // Multiplies the measured position
+}
+
+// Webcam exactly at the screen center, facing the viewer
+export const DEFAULT_CAMERA_CALIBRATION: CameraCalibration = {
+    cameraOffsetCm: {x: 0, y: 0, z: 0},
+    cameraTiltDeg: 0,
+    distanceScale: 1,
+};
+
+/**
+ * Maps a position measured by the webcam (cm, webcam axes) to cm relative to the screen center (screen axes).
+ */
+export const webcamToScreen = (
+    {x, y, z}: { x: number; y: number; z: number },
+    {cameraOffsetCm: offset, cameraTiltDeg, distanceScale}: CameraCalibration
+) => {
+    const tilt = cameraTiltDeg * Math.PI / 180;
+    const cos = Math.cos(tilt);
+    const sin = Math.sin(tilt);
+
+    // The webcam's up axis is (0, cos, sin) and its forward axis (0, -sin, cos) in screen space
+    return {
+        x: offset.x + distanceScale * x,
+        y: offset.y + distanceScale * (y * cos - z * sin),
+        z: offset.z + distanceScale * (y * sin + z * cos),
+    };
 };
 
 /**
- * Calculates the virtual camera position based on normalized face coordinates.
- * This logic ensures both the Camera component and BulletSystem use the same "eye" position.
+ * Calculates the virtual camera position from the metric head position (cm, relative to the webcam).
+ * The world is a uniformly scaled copy of the real setup: the screen plane is Z=0 and the eye sits
+ * exactly where the user's eye is relative to the physical screen, so the window effect is geometrically correct.
+ * This logic ensures both the Camera component and the bullets use the same "eye" position.
+ * The pose is used as is, also while `detected` is false: the head-pose filter already eases it to rest.
  */
 export const calculateCameraPosition = (
     facePosition: FacePosition,
-    smoothingTarget?: THREE.Vector3
+    screenSize: ScreenSize = DEFAULT_SCREEN_SIZE,
+    calibration: CameraCalibration = DEFAULT_CAMERA_CALIBRATION
+): THREE.Vector3 => {
+    // World units per real centimeter
+    const unitsPerCm = screenSize.height / screenSize.heightCm;
+
+    // facePosition is in webcam space with screen-like axes (+X viewer's right, +Y up), see estimateHeadPosition;
+    // the calibration moves it to the screen center
+    const head = webcamToScreen(facePosition, calibration);
+    const px = head.x * unitsPerCm;
+    const py = head.y * unitsPerCm;
+    const pz = Math.max(PARALLAX_CONSTANTS.MIN_HEAD_DISTANCE_CM, head.z) * unitsPerCm;
+
+    return new THREE.Vector3(px, py, pz);
+};
+
+/**
+ * Maps a normalized fingertip position (MediaPipe image coordinates) onto the screen plane (Z=0).
+ * The webcam overlay is drawn mirrored (scaleX(-1)), so X is flipped to match what the user sees.
+ */
+export const calculateAimPoint = (
+    tipPos: { x: number; y: number },
+    screenSize: { width: number; height: number }
 ): THREE.Vector3 => {
-    if (!facePosition.detected) {
-        // Return center/default position if face is not detected
-        return new THREE.Vector3(0, 0, PARALLAX_CONSTANTS.BASE_Z);
-    }
+    // Image: x 0 left -> 1 right (un-mirrored), y 0 top -> 1 bottom.
+    // World: screen centered at origin, +X right, +Y up.
+    const x = (0.5 - tipPos.x) * screenSize.width;
+    const y = (0.5 - tipPos.y) * screenSize.height;
+
+    return new THREE.Vector3(x, y, 0);
+};
+
+export const PROJECTION_DEFAULTS = {
+    NEAR: 0.1,
+    FAR: 1000,
+};
+
+/**
+ * A flat rectangular display in world space, given by three of its corners (as seen from the front).
+ * The edges from lowerLeft must be at right angles; the screen faces the side where
+ * (lowerRight - lowerLeft) x (upperLeft - lowerLeft) points.
+ */
+export interface ScreenCorners {
+    lowerLeft: THREE.Vector3;
+    lowerRight: THREE.Vector3;
+    upperLeft: THREE.Vector3;
+}
+
+/**
+ * The visible screen as the default layout uses it: centered at the origin in the Z=0 plane, facing +Z.
+ */
+export const getScreenCorners = (
+    screenSize: { width: number; height: number },
+    out: ScreenCorners = {lowerLeft: new THREE.Vector3(), lowerRight: new THREE.Vector3(), upperLeft: new THREE.Vector3()}
+): ScreenCorners => {
+    const halfW = screenSize.width / 2;
+    const halfH = screenSize.height / 2;
+    out.lowerLeft.set(-halfW, -halfH, 0);
+    out.lowerRight.set(halfW, -halfH, 0);
+    out.upperLeft.set(-halfW, halfH, 0);
+    return out;
+};
+
+// Per-frame scratch for the projection (called for every view, every frame)
+const scratch = {
+    right: new THREE.Vector3(),
+    up: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    toLowerLeft: new THREE.Vector3(),
+    toLowerRight: new THREE.Vector3(),
+    toUpperLeft: new THREE.Vector3(),
+    basis: new THREE.Matrix4(),
+    corners: getScreenCorners({width: 1, height: 1}),
+};
 
-    // Invert X: moving head left (neg X) means camera moves left to see "around" corners
-    const px = -facePosition.x * PARALLAX_CONSTANTS.SCALE_X;
+/**
+ * Generalized perspective projection (Kooima): points `camera` at `eye` through any screen rectangle, so the
+ * frustum edges pass through the screen edges and the screen acts as a window into the scene.
+ * The camera is turned to face the screen square-on and the frustum is skewed; for the default screen
+ * (Z=0, facing +Z) it doesn't rotate at all and looks straight down -Z.
+ */
+export const applyGeneralizedProjection = (
+    camera: THREE.PerspectiveCamera,
+    eye: THREE.Vector3,
+    {lowerLeft, lowerRight, upperLeft}: ScreenCorners,
+    near = PROJECTION_DEFAULTS.NEAR,
+    far = PROJECTION_DEFAULTS.FAR
+) => {
+    const {right, up, normal, toLowerLeft, toLowerRight, toUpperLeft, basis} = scratch;
 
-    // Invert Y: moving head up (neg Y) means camera moves up
-    // Wait, facePosition.y is already flipped in useFaceTracking? 
-    // In useFaceTracking: y = -(nose.y - 0.5) * 2; -> Up is +1, Down is -1.
-    // In ParallaxCamera: py = latestPos.y * SCALE_Y.
-    const py = facePosition.y * PARALLAX_CONSTANTS.SCALE_Y;
+    // Screen axes (orthonormal) and the eye-to-corner vectors
+    right.subVectors(lowerRight, lowerLeft).normalize();
+    up.subVectors(upperLeft, lowerLeft).normalize();
+    normal.crossVectors(right, up).normalize();
+    toLowerLeft.subVectors(lowerLeft, eye);
+    toLowerRight.subVectors(lowerRight, eye);
+    toUpperLeft.subVectors(upperLeft, eye);
 
-    // Z logic
-    // facePosition.z is undefined range but relative.
-    const pz = PARALLAX_CONSTANTS.BASE_Z + (facePosition.z * PARALLAX_CONSTANTS.Z_RANGE);
+    // Distance from the eye to the screen plane; kept positive so an eye behind the screen doesn't flip the frustum
+    const distance = Math.max(0.1, -toLowerLeft.dot(normal));
 
-    return new THREE.Vector3(px, py, Math.max(PARALLAX_CONSTANTS.MIN_Z, pz));
+    // Screen edges relative to the eye, scaled back onto the near plane:
+    // left = (screen_edge - eye) * (near / eye distance)
+    const scale = near / distance;
+    const left = right.dot(toLowerLeft) * scale;
+    const rightEdge = right.dot(toLowerRight) * scale;
+    const bottom = up.dot(toLowerLeft) * scale;
+    const top = up.dot(toUpperLeft) * scale;
+
+    camera.position.copy(eye);
+    camera.quaternion.setFromRotationMatrix(basis.makeBasis(right, up, normal));
+    camera.updateMatrixWorld();
+
+    camera.projectionMatrix.makePerspective(left, rightEdge, top, bottom, near, far);
+    camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
 };
+
+/**
+ * Off-axis projection through the default screen (see getScreenCorners).
+ * Used for the single camera and for each eye in stereo.
+ */
+export const applyOffAxisProjection = (
+    camera: THREE.PerspectiveCamera,
+    eye: THREE.Vector3,
+    screenSize: { width: number; height: number },
+    near = PROJECTION_DEFAULTS.NEAR,
+    far = PROJECTION_DEFAULTS.FAR
+) => applyGeneralizedProjection(camera, eye, getScreenCorners(screenSize, scratch.corners), near, far);
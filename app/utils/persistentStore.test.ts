@@ -0,0 +1,62 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {createPersistentStore, mergeStored} from './persistentStore';
+
+interface Settings {
+    size: number;
+    label: string;
+}
+
+const DEFAULTS: Settings = {size: 1, label: 'a'};
+
+const createStore = () => createPersistentStore<Settings>({
+    key: 'test',
+    defaults: DEFAULTS,
+    sanitize: stored => mergeStored(DEFAULTS, stored),
+    normalize: settings => ({...settings, size: Math.max(0, settings.size)}),
+});
+
+describe('createPersistentStore', () => {
+    let storage: Map<string, string>;
+
+    beforeEach(() => {
+        storage = new Map();
+        vi.stubGlobal('window', {
+            localStorage: {
+                getItem: (key: string) => storage.get(key) ?? null,
+                setItem: (key: string, value: string) => storage.set(key, value),
+            }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('starts from the defaults, or them merged with valid stored values', () => {
+        expect(createStore().get()).toEqual(DEFAULTS);
+        storage.set('test', JSON.stringify({size: 3, label: 7, extra: true}));
+        expect(createStore().get()).toEqual({size: 3, label: 'a'});
+    });
+
+    it('falls back to the defaults on unreadable storage', () => {
+        storage.set('test', '{not json');
+        expect(createStore().get()).toEqual(DEFAULTS);
+        storage.set('test', '[1, 2]');
+        expect(createStore().get()).toEqual(DEFAULTS);
+    });
+
+    it('normalizes, persists and notifies on update', () => {
+        const store = createStore();
+        const listener = vi.fn();
+        const unsubscribe = store.subscribe(listener);
+
+        store.update({size: -5});
+        expect(store.get()).toEqual({size: 0, label: 'a'});
+        expect(JSON.parse(storage.get('test')!)).toEqual({size: 0, label: 'a'});
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        unsubscribe();
+        store.set(DEFAULTS);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,72 @@
+import {useSyncExternalStore} from 'react';
+import {Json} from './validate';
+
+/**
+ * A settings object persisted in localStorage under `key`. Module-level (not React state), so render and
+ * tracking loops can read the live value every frame; components subscribe through `useValue`.
+ */
+export interface PersistentStoreOptions<T> {
+    key: string;
+    defaults: T; // Also the value during server rendering
+    sanitize: (stored: Json) => T; // Stored JSON -> a valid value (throwing falls back to the defaults)
+    normalize?: (next: T, patch: Partial<T>) => T; // Applied to every update (e.g. to keep related fields consistent)
+}
+
+export const createPersistentStore = <T extends object>({key, defaults, sanitize, normalize}: PersistentStoreOptions<T>) => {
+    let current: T | null = null;
+    const listeners = new Set<() => void>();
+
+    const load = (): T => {
+        if (typeof window === 'undefined') return defaults;
+        try {
+            const stored: unknown = JSON.parse(window.localStorage.getItem(key) ?? 'null');
+            if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return defaults;
+            return sanitize(stored as Json);
+        } catch {
+            return defaults;
+        }
+    };
+
+    const get = (): T => {
+        if (!current) current = load();
+        return current;
+    };
+
+    const set = (value: T) => {
+        current = value;
+        try {
+            window.localStorage.setItem(key, JSON.stringify(value));
+        } catch {
+            // Storage full or disabled: keep the settings for this session only
+        }
+        listeners.forEach(listener => listener());
+    };
+
+    const update = (patch: Partial<T>) => {
+        const next = {...get(), ...patch};
+        set(normalize ? normalize(next, patch) : next);
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    // React view of the value (defaults during server rendering)
+    const useValue = () => useSyncExternalStore(subscribe, get, () => defaults);
+
+    return {get, set, update, subscribe, useValue};
+};
+
+/**
+ * Stored values over the defaults, dropping anything whose type doesn't fit the current schema.
+ */
+export const mergeStored = <T extends object>(defaults: T, stored: Json): T => {
+    const merged = {...defaults};
+    (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+        if (typeof stored[key] === typeof defaults[key]) Object.assign(merged, {[key]: stored[key]});
+    });
+    return merged;
+};
@@ -0,0 +1,18 @@
+import {Handedness} from '../tracking/types';
+
+/**
+ * Each tracked hand is a player slot (two people sharing the screen, or one person dual-wielding).
+ * The right hand keeps the original red / yellow look, so single-player input looks unchanged.
+ */
+export interface PlayerStyle {
+    label: string;
+    color: string;       // Crosshair + overlay
+    bulletColor: string; // Bullet glow
+}
+
+export const PLAYER_STYLES: Record<Handedness, PlayerStyle> = {
+    left: {label: 'Left hand', color: '#33aaff', bulletColor: '#66ddff'},
+    right: {label: 'Right hand', color: '#ff3333', bulletColor: '#ffdd00'},
+};
+
+export const FIRING_COLOR = '#ffdd00';
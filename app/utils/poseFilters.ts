@@ -0,0 +1,186 @@
+/**
+ * Head-pose filters.
+ * Each filter consumes timestamped samples (cm, ms) and can predict the pose at an arbitrary time,
+ * which lets the renderer ask for "where will the head be when this frame hits the display".
+ * Everything is time-based, so the result doesn't depend on the render frame rate.
+ */
+
+export interface PoseSample {
+    x: number;
+    y: number;
+    z: number;
+    t: number; // ms (performance.now)
+}
+
+export interface PoseFilter {
+    update: (sample: PoseSample) => void;
+    predict: (timeMs: number) => { x: number; y: number; z: number } | null; // null until the first sample
+    reset: () => void;
+}
+
+export type PoseFilterKind = 'none' | 'oneEuro' | 'kalman';
+
+// Tuning parameters
+export const POSE_FILTER_DEFAULTS = {
+    // Never extrapolate further than this past the last sample (tracking stalls would overshoot)
+    MAX_PREDICTION_MS: 100,
+
+    // One-Euro: cutoff (Hz) when still, how fast the cutoff opens with speed, derivative cutoff (Hz)
+    ONE_EURO_MIN_CUTOFF: 1.0,
+    ONE_EURO_BETA: 0.02,
+    ONE_EURO_D_CUTOFF: 1.0,
+
+    // Kalman (constant velocity): process noise (acceleration, cm^2/s^3) and measurement noise (cm^2)
+    KALMAN_PROCESS_NOISE: 2000,
+    KALMAN_MEASUREMENT_NOISE: 0.5,
+};
+
+type Axis = 'x' | 'y' | 'z';
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+interface AxisFilter {
+    update: (value: number, dtSec: number) => void;
+    value: () => number;
+    velocity: () => number; // units per second
+}
+
+/**
+ * Runs one AxisFilter per axis and handles time bookkeeping + extrapolation.
+ */
+const createAxisPoseFilter = (createAxis: (initial: number) => AxisFilter): PoseFilter => {
+    let axes: Record<Axis, AxisFilter> | null = null;
+    let lastT = 0;
+
+    return {
+        update: (sample) => {
+            if (!axes) {
+                axes = {x: createAxis(sample.x), y: createAxis(sample.y), z: createAxis(sample.z)};
+                lastT = sample.t;
+                return;
+            }
+
+            const dtSec = (sample.t - lastT) / 1000;
+            if (dtSec <= 0) return; // Out of order or duplicate sample
+            lastT = sample.t;
+
+            AXES.forEach(axis => axes![axis].update(sample[axis], dtSec));
+        },
+        predict: (timeMs) => {
+            if (!axes) return null;
+
+            // Latency compensation: extrapolate along the estimated velocity
+            const aheadSec = Math.min(Math.max(0, timeMs - lastT), POSE_FILTER_DEFAULTS.MAX_PREDICTION_MS) / 1000;
+            return {
+                x: axes.x.value() + axes.x.velocity() * aheadSec,
+                y: axes.y.value() + axes.y.velocity() * aheadSec,
+                z: axes.z.value() + axes.z.velocity() * aheadSec,
+            };
+        },
+        reset: () => {
+            axes = null;
+            lastT = 0;
+        },
+    };
+};
+
+/**
+ * No smoothing, no prediction: always the latest sample.
+ */
+export const createPassthroughFilter = (): PoseFilter => {
+    let latest: PoseSample | null = null;
+    return {
+        update: (sample) => {
+            latest = sample;
+        },
+        predict: () => latest && {x: latest.x, y: latest.y, z: latest.z},
+        reset: () => {
+            latest = null;
+        },
+    };
+};
+
+/**
+ * One-Euro filter (Casiez et al. 2012): heavy smoothing when still, low lag when moving fast.
+ */
+export const createOneEuroFilter = ({
+                                        minCutoff = POSE_FILTER_DEFAULTS.ONE_EURO_MIN_CUTOFF,
+                                        beta = POSE_FILTER_DEFAULTS.ONE_EURO_BETA,
+                                        dCutoff = POSE_FILTER_DEFAULTS.ONE_EURO_D_CUTOFF
+                                    } = {}): PoseFilter => {
+    // Exponential smoothing factor for a given cutoff frequency
+    const alpha = (cutoff: number, dtSec: number) => {
+        const tau = 1 / (2 * Math.PI * cutoff);
+        return 1 / (1 + tau / dtSec);
+    };
+
+    return createAxisPoseFilter((initial) => {
+        let x = initial;
+        let dx = 0;
+
+        return {
+            update: (value, dtSec) => {
+                const rawDx = (value - x) / dtSec;
+                dx += alpha(dCutoff, dtSec) * (rawDx - dx);
+
+                const cutoff = minCutoff + beta * Math.abs(dx);
+                x += alpha(cutoff, dtSec) * (value - x);
+            },
+            value: () => x,
+            velocity: () => dx,
+        };
+    });
+};
+
+/**
+ * Constant-velocity Kalman filter, one independent [position, velocity] state per axis.
+ */
+export const createKalmanFilter = ({
+                                       processNoise = POSE_FILTER_DEFAULTS.KALMAN_PROCESS_NOISE,
+                                       measurementNoise = POSE_FILTER_DEFAULTS.KALMAN_MEASUREMENT_NOISE
+                                   } = {}): PoseFilter => {
+    return createAxisPoseFilter((initial) => {
+        let p = initial;
+        let v = 0;
+        // Covariance [[p00, p01], [p01, p11]]
+        let p00 = measurementNoise;
+        let p01 = 0;
+        let p11 = 100;
+
+        return {
+            update: (value, dt) => {
+                // 1. Predict: x = F x, P = F P F' + Q
+                p += v * dt;
+                const q = processNoise;
+                const n00 = p00 + 2 * dt * p01 + dt * dt * p11 + q * dt ** 3 / 3;
+                const n01 = p01 + dt * p11 + q * dt ** 2 / 2;
+                const n11 = p11 + q * dt;
+
+                // 2. Correct with the measured position (H = [1, 0])
+                const s = n00 + measurementNoise;
+                const k0 = n00 / s;
+                const k1 = n01 / s;
+                const innovation = value - p;
+
+                p += k0 * innovation;
+                v += k1 * innovation;
+
+                p00 = (1 - k0) * n00;
+                p01 = (1 - k0) * n01;
+                p11 = n11 - k1 * n01;
+            },
+            value: () => p,
+            velocity: () => v,
+        };
+    });
+};
+
+export const createPoseFilter = (kind: PoseFilterKind): PoseFilter => {
+    switch (kind) {
+        case 'oneEuro':
+            return createOneEuroFilter();
+        case 'kalman':
+            return createKalmanFilter();
+        default:
+            return createPassthroughFilter();
+    }
+};
@@ -0,0 +1,53 @@
+/**
+ * Seeded randomness, so a run (or a bug report) can be replayed exactly.
+ * Everything that used Math.random() for gameplay takes a RandomSource instead.
+ */
+
+export type RandomSource = () => number; // [0, 1), like Math.random
+
+const MAX_SEED = 0xffffffff;
+
+// Mulberry32: tiny, fast and good enough for gameplay (not for anything security related)
+export const createRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// FNV-1a: turns any text into a seed
+const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Independent stream for one consumer (e.g. 'targets', 'effects'), so extra explosions don't shift
+ * where the next target spawns.
+ */
+export const deriveSeed = (seed: number, stream: string | number) => hashString(`${seed}:${stream}`);
+
+// Same seed for everyone on the same (UTC) day
+export const dailySeed = (date = new Date()) =>
+    date.getUTCFullYear() * 10000 + (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+
+/**
+ * `?seed=` value: a number, "daily", or any other text (hashed). null if missing / empty.
+ */
+export const parseSeed = (value: string | undefined | null): number | null => {
+    const text = value?.trim();
+    if (!text) return null;
+    if (text.toLowerCase() === 'daily') return dailySeed();
+    if (/^\d+$/.test(text) && Number(text) <= MAX_SEED) return Number(text);
+    return hashString(text);
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
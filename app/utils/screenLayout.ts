@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import {ScreenCorners} from './parallaxUtils';
+import {createValidator} from './validate';
+
+/**
+ * Screen layout file format (JSON, `public/screens/<id>.json`): the physical displays of an installation,
+ * each with its corners in world space and the part of the canvas it shows. Every screen gets its own
+ * generalized off-axis view from the same tracked eye, so the displays act as windows into one scene
+ * (e.g. two monitors meeting at a corner, or a table-top display lying flat).
+ * World units: the default screen is 22.5 units tall, centered at the origin in the Z=0 plane.
+ *
+ * {
+ *   "format": "parallax-screens", "version": 1, "id": "corner", "name": "Two-monitor corner",
+ *   "screens": [{
+ *     "id": "left",
+ *     "lowerLeft": [-34.64, -11.25, 20], "lowerRight": [0, -11.25, 0], "upperLeft": [-34.64, 11.25, 20],
+ *     "viewport": {"x": 0, "y": 0, "width": 0.5, "height": 1}
+ *   }]
+ * }
+ */
+
+export const SCREEN_LAYOUT_FORMAT = 'parallax-screens';
+export const SCREEN_LAYOUT_VERSION = 1;
+
+export const SCREEN_LAYOUT_LIMITS = {
+    MAX_SCREENS: 8,
+    SQUARENESS: 0.01, // Max |cos| between the two edges
+};
+
+/**
+ * Part of the canvas a screen is drawn into, as fractions of the canvas (from the top-left corner).
+ * With one canvas stretched over several monitors, this is where each monitor sits.
+ */
+export interface Viewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ScreenDef {
+    id: string;
+    corners: ScreenCorners;
+    viewport: Viewport;
+}
+
+export interface ScreenLayout {
+    id: string;
+    name: string;
+    screens: ScreenDef[];
+}
+
+export const FULL_VIEWPORT: Viewport = {x: 0, y: 0, width: 1, height: 1};
+
+// --- Validation ---
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+const {fail, object, array, number, integer, string, vec3} = createValidator('Screen layout');
+
+const point = (value: unknown, path: string) => new THREE.Vector3(...vec3(value, path));
+
+const parseViewport = (value: unknown, path: string): Viewport => {
+    if (value === undefined) return FULL_VIEWPORT;
+    const raw = object(value, path);
+    const viewport = {
+        x: number(raw.x, `${path}.x`, 0, 1),
+        y: number(raw.y, `${path}.y`, 0, 1),
+        width: number(raw.width, `${path}.width`, 0.01, 1),
+        height: number(raw.height, `${path}.height`, 0.01, 1),
+    };
+    if (viewport.x + viewport.width > 1 + 1e-6) fail(path, 'x + width must be at most 1');
+    if (viewport.y + viewport.height > 1 + 1e-6) fail(path, 'y + height must be at most 1');
+    return viewport;
+};
+
+const parseScreen = (value: unknown, path: string): ScreenDef => {
+    const raw = object(value, path);
+    const corners = {
+        lowerLeft: point(raw.lowerLeft, `${path}.lowerLeft`),
+        lowerRight: point(raw.lowerRight, `${path}.lowerRight`),
+        upperLeft: point(raw.upperLeft, `${path}.upperLeft`),
+    };
+
+    // The projection needs a real rectangle: two non-zero edges at right angles
+    const right = corners.lowerRight.clone().sub(corners.lowerLeft);
+    const up = corners.upperLeft.clone().sub(corners.lowerLeft);
+    if (right.length() < 1e-3) fail(`${path}.lowerRight`, 'must differ from lowerLeft');
+    if (up.length() < 1e-3) fail(`${path}.upperLeft`, 'must differ from lowerLeft');
+    if (Math.abs(right.normalize().dot(up.normalize())) > SCREEN_LAYOUT_LIMITS.SQUARENESS) {
+        fail(path, 'the lowerLeft -> lowerRight and lowerLeft -> upperLeft edges must be at right angles');
+    }
+
+    return {
+        id: string(raw.id, `${path}.id`),
+        corners,
+        viewport: parseViewport(raw.viewport, `${path}.viewport`),
+    };
+};
+
+/**
+ * Validates a parsed screen layout file. Throws an Error naming the offending field (e.g. "screens[1].upperLeft").
+ */
+export const parseScreenLayout = (json: unknown): ScreenLayout => {
+    const raw = object(json, '');
+    if (raw.format !== SCREEN_LAYOUT_FORMAT) fail('format', `must be "${SCREEN_LAYOUT_FORMAT}"`);
+    const version = integer(raw.version, 'version', 1);
+    if (version > SCREEN_LAYOUT_VERSION) fail('version', `${version} is newer than supported (${SCREEN_LAYOUT_VERSION})`);
+
+    const id = string(raw.id, 'id');
+    if (!ID_PATTERN.test(id)) fail('id', 'must be lowercase letters, digits and dashes');
+
+    const screens = array(raw.screens, 'screens', SCREEN_LAYOUT_LIMITS.MAX_SCREENS).map((value, i) => parseScreen(value, `screens[${i}]`));
+
+    return {id, name: raw.name === undefined ? id : string(raw.name, 'name'), screens};
+};
+
+export const isValidScreenLayoutId = (id: string) => ID_PATTERN.test(id);
+
+/**
+ * Fetches and validates `/screens/<id>.json`.
+ */
+export const loadScreenLayout = async (id: string, basePath = '/screens'): Promise<ScreenLayout> => {
+    if (!isValidScreenLayoutId(id)) throw new Error(`Invalid screen layout id "${id}"`);
+
+    const res = await fetch(`${basePath}/${id}.json`, {cache: 'no-store'});
+    if (!res.ok) throw new Error(`Screen layout "${id}" not found (${res.status})`);
+
+    let json: unknown;
+    try {
+        json = await res.json();
+    } catch {
+        throw new Error(`Screen layout "${id}" is not valid JSON`);
+    }
+    return parseScreenLayout(json);
+};
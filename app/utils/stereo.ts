@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import {FACE_METRICS} from './faceGeometry';
+
+/**
+ * Stereoscopic output: each eye gets its own off-axis frustum through the same screen rectangle,
+ * so the window is seen in depth instead of only through head motion.
+ * - 'anaglyph': red/cyan glasses
+ * - 'sideBySide' / 'topBottom': 3D TVs and projectors (each eye squeezed into half the frame)
+ * - 'interlaced': passive (polarized) 3D monitors, alternating rows
+ */
+export type StereoMode = 'off' | 'anaglyph' | 'sideBySide' | 'topBottom' | 'interlaced';
+
+export const STEREO_MODES: StereoMode[] = ['off', 'anaglyph', 'sideBySide', 'topBottom', 'interlaced'];
+
+export interface StereoConfig {
+    mode: StereoMode;
+    ipdCm: number;      // Interpupillary distance of the viewer
+    swapEyes: boolean;  // For displays / glasses that show the eyes the other way round
+}
+
+export const STEREO_LIMITS = {
+    MIN_IPD_CM: 4.5,
+    MAX_IPD_CM: 8,
+};
+
+export const DEFAULT_STEREO_CONFIG: StereoConfig = {
+    mode: 'off',
+    ipdCm: FACE_METRICS.IPD_CM, // Adult average, as assumed by the distance estimate
+    swapEyes: false,
+};
+
+/**
+ * Both eye positions around the tracked viewpoint, in world units. That must be the midpoint between the eyes:
+ * Scene forces the 'eyeMidpoint' viewpoint while stereo is on.
+ * The eyes are placed along the screen's horizontal axis: the head pose doesn't carry roll.
+ */
+export const calculateEyePositions = (
+    center: THREE.Vector3,
+    {ipdCm, swapEyes}: StereoConfig,
+    unitsPerCm: number,
+    out = {left: new THREE.Vector3(), right: new THREE.Vector3()}
+) => {
+    const half = (ipdCm / 2) * unitsPerCm * (swapEyes ? -1 : 1);
+    out.left.copy(center).setX(center.x - half);
+    out.right.copy(center).setX(center.x + half);
+    return out;
+};
@@ -0,0 +1,26 @@
+import {createPersistentStore} from './persistentStore';
+import {DEFAULT_STEREO_CONFIG, STEREO_LIMITS, STEREO_MODES, StereoConfig} from './stereo';
+
+/**
+ * Stereo output settings, persisted in localStorage (the display and the viewer's eyes rarely change).
+ */
+
+const store = createPersistentStore<StereoConfig>({
+    key: 'parallax-window.stereo-config',
+    defaults: DEFAULT_STEREO_CONFIG,
+    sanitize: stored => ({
+        mode: STEREO_MODES.find(mode => mode === stored.mode) ?? DEFAULT_STEREO_CONFIG.mode,
+        ipdCm: typeof stored.ipdCm === 'number'
+            ? Math.min(STEREO_LIMITS.MAX_IPD_CM, Math.max(STEREO_LIMITS.MIN_IPD_CM, stored.ipdCm))
+            : DEFAULT_STEREO_CONFIG.ipdCm,
+        swapEyes: typeof stored.swapEyes === 'boolean' ? stored.swapEyes : DEFAULT_STEREO_CONFIG.swapEyes,
+    }),
+});
+
+export const getStereoConfig = store.get;
+export const updateStereoConfig = store.update;
+
+/**
+ * React view of the stereo settings (defaults during server rendering).
+ */
+export const useStereoConfig = store.useValue;
@@ -0,0 +1,40 @@
+/**
+ * Validators for hand-written JSON files (levels, screen layouts). Each one returns the checked value,
+ * or throws an Error naming the file kind and the offending field, e.g. "Level waves[1].spawns[0].count: ...".
+ */
+
+export type Json = Record<string, unknown>;
+
+export const createValidator = (label: string) => {
+    const fail = (path: string, message: string): never => {
+        throw new Error(`${label} ${path}: ${message}`);
+    };
+
+    const object = (value: unknown, path: string): Json =>
+        typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Json : fail(path, 'must be an object');
+
+    const array = (value: unknown, path: string, maxLength: number): unknown[] => {
+        if (!Array.isArray(value) || value.length === 0) return fail(path, 'must be a non-empty array');
+        if (value.length > maxLength) return fail(path, `must have at most ${maxLength} entries`);
+        return value;
+    };
+
+    const number = (value: unknown, path: string, min: number, max = Infinity): number =>
+        typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+            ? value
+            : fail(path, `must be a number between ${min} and ${max}`);
+
+    const integer = (value: unknown, path: string, min: number, max = Infinity): number =>
+        Number.isInteger(value) ? number(value, path, min, max) : fail(path, `must be a whole number >= ${min}`);
+
+    const string = (value: unknown, path: string): string =>
+        typeof value === 'string' && value.length > 0 ? value : fail(path, 'must be a non-empty string');
+
+    // World-space point, within a sane range
+    const vec3 = (value: unknown, path: string): [number, number, number] => {
+        if (!Array.isArray(value) || value.length !== 3) return fail(path, 'must be [x, y, z]');
+        return value.map((v, i) => number(v, `${path}[${i}]`, -1000, 1000)) as [number, number, number];
+    };
+
+    return {fail, object, array, number, integer, string, vec3};
+};
@@ -0,0 +1,27 @@
+import {createPersistentStore} from './persistentStore';
+import {DEFAULT_VIEWPOINT, VIEWPOINT_SOURCES, ViewpointSource} from './faceGeometry';
+
+/**
+ * Point of the face the perspective is rendered from, persisted in localStorage (it depends on the viewer,
+ * e.g. their dominant eye). Applies live: the tracking loop reads it every frame.
+ */
+
+export interface ViewpointSettings {
+    viewpoint: ViewpointSource;
+}
+
+const store = createPersistentStore<ViewpointSettings>({
+    key: 'parallax-window.viewpoint',
+    defaults: {viewpoint: DEFAULT_VIEWPOINT},
+    sanitize: stored => ({
+        viewpoint: VIEWPOINT_SOURCES.find(source => source === stored.viewpoint) ?? DEFAULT_VIEWPOINT,
+    }),
+});
+
+export const getViewpointSettings = store.get;
+export const updateViewpointSettings = store.update;
+
+/**
+ * React view of the viewpoint setting (defaults during server rendering).
+ */
+export const useViewpointSettings = store.useValue;
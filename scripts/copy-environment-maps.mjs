@@ -0,0 +1,28 @@
+// Writes the environment maps (HDRIs) from @pmndrs/assets into public/hdri/, so lighting presets load
+// from the app's own origin instead of drei's CDN (offline kiosks).
+// Runs automatically before `dev` and `build`.
+import {mkdir, readdir, readFile, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const srcDir = path.join(root, 'node_modules', '@pmndrs', 'assets', 'hdri');
+const outDir = path.join(root, 'public', 'hdri');
+
+// Each map is a JS module exporting a base64 data URL: `export default 'data:application/exr;base64,...'`
+const DATA_URL = /'data:application\/exr;base64,([A-Za-z0-9+/=]+)'/;
+
+await mkdir(outDir, {recursive: true});
+const written = [];
+for (const file of await readdir(srcDir)) {
+    if (!file.endsWith('.exr.js')) continue;
+
+    const match = DATA_URL.exec(await readFile(path.join(srcDir, file), 'utf8'));
+    if (!match) {
+        console.warn(`[hdri] skipped ${file}: no embedded EXR`);
+        continue;
+    }
+    const name = file.replace(/\.js$/, '');
+    await writeFile(path.join(outDir, name), Buffer.from(match[1], 'base64'));
+    written.push(name.replace(/\.exr$/, ''));
+}
+console.log(`[hdri] ${written.join(', ')} -> public/hdri`);
@@ -0,0 +1,45 @@
+// Copies the MediaPipe wasm runtime from node_modules into public/, and downloads the
+// .task models once, so the app can serve everything from its own origin (offline kiosks).
+// Runs automatically before `dev` and `build`. Re-run with --force to refresh the models.
+import {copyFile, mkdir, readdir, readFile, stat, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const outDir = path.join(root, 'public', 'mediapipe');
+const force = process.argv.includes('--force');
+
+const MODELS = {
+    'face_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+    'hand_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+const exists = async (file) => stat(file).then(() => true, () => false);
+
+// 1. Wasm runtime: always copied, so it matches the installed @mediapipe/tasks-vision version
+const pkgDir = path.join(root, 'node_modules', '@mediapipe', 'tasks-vision');
+const {version} = JSON.parse(await readFile(path.join(pkgDir, 'package.json'), 'utf8'));
+const wasmSrc = path.join(pkgDir, 'wasm');
+const wasmOut = path.join(outDir, 'wasm');
+await mkdir(wasmOut, {recursive: true});
+for (const file of await readdir(wasmSrc)) {
+    await copyFile(path.join(wasmSrc, file), path.join(wasmOut, file));
+}
+console.log(`[mediapipe] wasm runtime ${version} -> public/mediapipe/wasm`);
+
+// 2. Models: downloaded once (needs internet on the build machine, not on the kiosk)
+const modelsOut = path.join(outDir, 'models');
+await mkdir(modelsOut, {recursive: true});
+for (const [file, url] of Object.entries(MODELS)) {
+    const target = path.join(modelsOut, file);
+    if (!force && await exists(target)) continue;
+
+    try {
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        await writeFile(target, Buffer.from(await res.arrayBuffer()));
+        console.log(`[mediapipe] downloaded ${file}`);
+    } catch (err) {
+        // Not fatal: the app reports missing assets on screen. Copy the file in manually for offline installs.
+        console.warn(`[mediapipe] could not download ${file} (${err.message}). Place it in public/mediapipe/models/.`);
+    }
+}